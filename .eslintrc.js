@@ -1,4 +1,16 @@
 module.exports = {
   root: true,
   extends: '@react-native',
+  overrides: [
+    {
+      files: ['app-script/**/*.js'],
+      globals: {
+        FirebaseApp: 'readonly',
+        GmailApp: 'readonly',
+        HtmlService: 'readonly',
+        PropertiesService: 'readonly',
+        SpreadsheetApp: 'readonly',
+      },
+    },
+  ],
 };
@@ -29,9 +29,13 @@ import {
 import database from './src/database/Database';
 import { SettingsProvider, useSettings } from './src/context/SettingsContext';
 import { useThemeTokens } from './src/context/SettingsContext';
-// import { backgroundSyncManager } from './src/services/BackgroundSyncManager';
-// import { foregroundSyncManager } from './src/services/ForegroundSyncManager';
+import { backgroundSyncManager } from './src/services/BackgroundSyncManager';
+import { foregroundSyncManager } from './src/services/ForegroundSyncManager';
 import { notificationService } from './src/services/NotificationService';
+import {
+  navigationRef,
+  flushPendingNavigation,
+} from './src/services/NavigationService';
 import { withStallion } from 'react-native-stallion';
 
 import { RootStackParamList, TabParamList } from './src/types';
@@ -45,6 +49,9 @@ import FavouritesScreen from './src/screens/FavouritesScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
 import ContentListScreen from './src/screens/ContentListScreen';
 import KalaamScreen from './src/screens/KalaamScreen';
+import RecentlyAddedScreen from './src/screens/RecentlyAddedScreen';
+import PlaylistsScreen from './src/screens/PlaylistsScreen';
+import PlaylistScreen from './src/screens/PlaylistScreen';
 
 const Tab = createBottomTabNavigator<TabParamList>();
 const Stack = createStackNavigator<RootStackParamList>();
@@ -361,14 +368,13 @@ function App() {
         setTimeout(async () => {
           try {
             await notificationService.initialize();
-            // Disabled all auto sync on launch for first release
-            // await foregroundSyncManager.initialize();
-            // await backgroundSyncManager.startBackgroundSync();
-            console.log(
-              '[App] App initialization completed (all auto sync disabled)',
-            );
-          } catch (error) {
-            console.error('[App] App initialization failed:', error);
+            // Foreground syncs on open and reconnect; background runs are
+            // scheduled by the OS. Both follow the sync config.
+            await foregroundSyncManager().initialize();
+            await backgroundSyncManager().startBackgroundSync();
+            console.log('[App] App initialization completed');
+          } catch (serviceError) {
+            console.error('[App] App initialization failed:', serviceError);
           }
         }, 100);
 
@@ -450,7 +456,11 @@ function App() {
     const t = useThemeTokens();
     const insets = useSafeAreaInsets();
     return (
-      <NavigationContainer theme={theme === 'dark' ? DarkTheme : DefaultTheme}>
+      <NavigationContainer
+        ref={navigationRef}
+        onReady={flushPendingNavigation}
+        theme={theme === 'dark' ? DarkTheme : DefaultTheme}
+      >
         <StatusBar barStyle={t.isDark ? 'light-content' : 'dark-content'} />
         <Tab.Navigator
           initialRouteName="Home"
@@ -509,6 +519,9 @@ function App() {
                 <Stack.Screen name="Poet" component={ContentListScreen} />
                 <Stack.Screen name="Reciter" component={ContentListScreen} />
                 <Stack.Screen name="Kalaam" component={KalaamScreen} />
+                <Stack.Screen name="RecentlyAdded" component={RecentlyAddedScreen} />
+                <Stack.Screen name="Playlists" component={PlaylistsScreen} />
+                <Stack.Screen name="Playlist" component={PlaylistScreen} />
               </Stack.Navigator>
             )}
             options={{
@@ -0,0 +1,87 @@
+/**
+ * In-memory stand-in for react-native-sqlite-storage, backed by sql.js, so
+ * database code runs against a real SQLite engine under Jest. Opening a name
+ * that is already open returns the same database, so a test can seed it
+ * before the code under test opens it; closing discards it. sql.js ships
+ * FTS3/4 but not FTS5, which exercises the same fallback as Android.
+ *
+ * Only the promise API used by the app is implemented.
+ */
+
+const initSqlJs = require('sql.js');
+
+let sqlJs = null;
+const openDatabases = new Map();
+
+function resultSet(db, stmt) {
+  const rows = [];
+  while (stmt.step()) {
+    rows.push(stmt.getAsObject());
+  }
+  return {
+    rows: {
+      length: rows.length,
+      item: index => rows[index],
+      raw: () => rows.slice(),
+    },
+    rowsAffected: db.getRowsModified(),
+    insertId: db.exec('SELECT last_insert_rowid()')[0].values[0][0],
+  };
+}
+
+class MockSQLiteDatabase {
+  constructor(name, db) {
+    this.name = name;
+    this.db = db;
+  }
+
+  run(sql, params = []) {
+    const stmt = this.db.prepare(sql);
+    try {
+      stmt.bind(params.map(value => (value === undefined ? null : value)));
+      return resultSet(this.db, stmt);
+    } finally {
+      stmt.free();
+    }
+  }
+
+  async executeSql(sql, params) {
+    return [this.run(sql, params)];
+  }
+
+  async sqlBatch(statements) {
+    this.db.run('BEGIN');
+    try {
+      for (const statement of statements) {
+        if (Array.isArray(statement)) {
+          this.run(statement[0], statement[1]);
+        } else {
+          this.run(statement);
+        }
+      }
+      this.db.run('COMMIT');
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async close() {
+    openDatabases.delete(this.name);
+    this.db.close();
+  }
+}
+
+module.exports = {
+  __esModule: true,
+  default: {
+    enablePromise() {},
+    async openDatabase({ name }) {
+      sqlJs = sqlJs || (await initSqlJs());
+      if (!openDatabases.has(name)) {
+        openDatabases.set(name, new MockSQLiteDatabase(name, new sqlJs.Database()));
+      }
+      return openDatabases.get(name);
+    },
+  },
+};
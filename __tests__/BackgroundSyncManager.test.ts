@@ -0,0 +1,166 @@
+/**
+ * @format
+ */
+
+import BackgroundFetch from 'react-native-background-fetch';
+import { syncManager } from '../src/services/SyncManager';
+import {
+  BackgroundSyncManager,
+  backgroundSyncHeadlessTask,
+} from '../src/services/BackgroundSyncManager';
+import { SyncConfig } from '../src/types';
+
+jest.mock('react-native-background-fetch', () => ({
+  __esModule: true,
+  default: {
+    STATUS_AVAILABLE: 2,
+    NETWORK_TYPE_ANY: 1,
+    NETWORK_TYPE_UNMETERED: 2,
+    configure: jest.fn(async () => 2),
+    finish: jest.fn(),
+    stop: jest.fn(async () => true),
+    registerHeadlessTask: jest.fn(),
+  },
+}));
+
+jest.mock('../src/services/SyncManager', () => {
+  const listeners = new Set<(config: any) => void>();
+  let config: any;
+  return {
+    syncManager: {
+      __reset(next: any) {
+        listeners.clear();
+        config = next;
+      },
+      __setConfig(next: any) {
+        config = next;
+        listeners.forEach(listener => listener(config));
+      },
+      loadSyncConfig: jest.fn(async () => config),
+      getSyncConfig: jest.fn(() => config),
+      onSyncConfigChange: jest.fn((listener: (c: any) => void) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      }),
+      syncKalaamData: jest.fn(),
+    },
+  };
+});
+
+const mockedFetch = BackgroundFetch as jest.Mocked<typeof BackgroundFetch>;
+const mockedSync = syncManager as jest.Mocked<typeof syncManager> & {
+  __reset(config: SyncConfig): void;
+  __setConfig(config: SyncConfig): void;
+};
+
+const baseConfig: SyncConfig = {
+  backgroundSyncInterval: 30,
+  foregroundSyncOnAppOpen: true,
+  wifiOnlySync: false,
+  maxRetryAttempts: 3,
+  batchSize: 100,
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockedSync.__reset(baseConfig);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('scheduling', () => {
+  test('schedules with the configured interval and network constraint', async () => {
+    mockedSync.__setConfig({ ...baseConfig, backgroundSyncInterval: 60, wifiOnlySync: true });
+
+    await new BackgroundSyncManager().startBackgroundSync();
+
+    expect(mockedFetch.configure).toHaveBeenCalledTimes(1);
+    expect(mockedFetch.configure.mock.calls[0][0]).toEqual(
+      expect.objectContaining({
+        minimumFetchInterval: 60,
+        requiredNetworkType: mockedFetch.NETWORK_TYPE_UNMETERED,
+        enableHeadless: true,
+        stopOnTerminate: false,
+      }),
+    );
+  });
+
+  test('never asks for less than the OS minimum interval', () => {
+    const config = new BackgroundSyncManager().getFetchConfig({
+      ...baseConfig,
+      backgroundSyncInterval: 5,
+    });
+    expect(config.minimumFetchInterval).toBe(15);
+    expect(config.requiredNetworkType).toBe(mockedFetch.NETWORK_TYPE_ANY);
+  });
+
+  test('reschedules when the sync config changes', async () => {
+    await new BackgroundSyncManager().startBackgroundSync();
+
+    mockedSync.__setConfig({ ...baseConfig, backgroundSyncInterval: 120 });
+
+    expect(mockedFetch.configure).toHaveBeenCalledTimes(2);
+    expect(mockedFetch.configure.mock.calls[1][0].minimumFetchInterval).toBe(120);
+  });
+
+  test('stops listening once stopped', async () => {
+    const manager = new BackgroundSyncManager();
+    await manager.startBackgroundSync();
+    await manager.stopBackgroundSync();
+
+    mockedSync.__setConfig({ ...baseConfig, backgroundSyncInterval: 120 });
+
+    expect(mockedFetch.stop).toHaveBeenCalled();
+    expect(mockedFetch.configure).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('runs', () => {
+  test('runs a background sync and finishes the task', async () => {
+    mockedSync.syncKalaamData.mockResolvedValue({
+      success: true,
+      recordsProcessed: 4,
+      activeRecords: 3,
+      deletedRecords: 1,
+    });
+
+    await new BackgroundSyncManager().runTask('task-1');
+
+    expect(mockedSync.syncKalaamData).toHaveBeenCalledWith('background');
+    expect(mockedFetch.finish).toHaveBeenCalledWith('task-1');
+  });
+
+  test('still finishes the task when the sync throws', async () => {
+    mockedSync.syncKalaamData.mockRejectedValue(new Error('boom'));
+
+    await new BackgroundSyncManager().runTask('task-2');
+
+    expect(mockedFetch.finish).toHaveBeenCalledWith('task-2');
+  });
+
+  test('headless timeouts finish without syncing', async () => {
+    await backgroundSyncHeadlessTask({ taskId: 'task-3', timeout: true });
+
+    expect(mockedSync.syncKalaamData).not.toHaveBeenCalled();
+    expect(mockedFetch.finish).toHaveBeenCalledWith('task-3');
+  });
+
+  test('headless events run a sync', async () => {
+    mockedSync.syncKalaamData.mockResolvedValue({
+      success: true,
+      recordsProcessed: 0,
+      activeRecords: 0,
+      deletedRecords: 0,
+    });
+
+    await backgroundSyncHeadlessTask({ taskId: 'task-4', timeout: false });
+
+    expect(mockedSync.syncKalaamData).toHaveBeenCalledTimes(1);
+    expect(mockedFetch.finish).toHaveBeenCalledWith('task-4');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @format
+ */
+
+import { loadIsolated } from './helpers/isolatedModules';
+
+// A fresh Database singleton and SQLite mock, with kalaams for the given ids
+async function loadDevice(ids: number[]) {
+  const modules = loadIsolated('database', 'FavoritesService', 'PlaylistService', 'BackupService');
+  await modules.database.init();
+  await modules.database.applyChanges(
+    [{ id: -1, title: 'Hadees e Kisa' }, ...ids.map(id => ({ id, title: `Noha ${id}` }))],
+    [],
+  );
+  return modules;
+}
+
+type Modules = Awaited<ReturnType<typeof loadDevice>>;
+
+async function favouriteRows({ database }: Modules) {
+  const [result] = await database.ensureInitialized().executeSql(
+    'SELECT kalaam_id, created_at, pinned, pin_order FROM favourites ORDER BY kalaam_id',
+  );
+  const rows = [];
+  for (let i = 0; i < result.rows.length; i++) {
+    rows.push(result.rows.item(i));
+  }
+  return rows;
+}
+
+// Back up a device through the JSON text a user would carry over
+async function exportedBackup(device: Modules) {
+  const text = JSON.stringify(await device.BackupService.createBackup());
+  return device.BackupService.parseBackup(text);
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('BackupService', () => {
+  test('restores favourites, pins, playlists and settings on another device', async () => {
+    const source = await loadDevice([1, 2, 3]);
+    const db = source.database.ensureInitialized();
+    await db.executeSql(
+      "INSERT INTO favourites (kalaam_id, created_at, pinned) VALUES (1, '2025-01-01 10:00:00', 0), (2, '2025-01-02 10:00:00', 0), (3, '2025-01-03 10:00:00', 0)",
+    );
+    await source.FavoritesService.pinKalaam(3);
+    await source.FavoritesService.pinKalaam(2);
+    const playlistId = await source.PlaylistService.createPlaylist('Ashura night');
+    await source.PlaylistService.addKalaam(playlistId, 3);
+    await source.PlaylistService.addKalaam(playlistId, 1);
+    await source.database.setSetting('theme', 'dark');
+    await source.database.setSetting('cdc_progress', '{"date":"2025-01-01","applied":3}');
+
+    const backup = await exportedBackup(source);
+    // The new phone hasn't synced kalaam 2 yet
+    const target = await loadDevice([1, 3]);
+    const summary = await target.BackupService.restoreBackup(backup, 'replace');
+
+    expect(summary).toEqual({ favourites: 2, playlists: 1, settings: expect.any(Number), skippedKalaams: 1 });
+    expect((await favouriteRows(target)).filter(row => row.kalaam_id >= 0)).toEqual([
+      { kalaam_id: 1, created_at: '2025-01-01 10:00:00', pinned: 0, pin_order: null },
+      { kalaam_id: 3, created_at: '2025-01-03 10:00:00', pinned: 1, pin_order: 1 },
+    ]);
+    const [restored] = await target.PlaylistService.getPlaylists();
+    expect(restored.name).toBe('Ashura night');
+    expect((await target.PlaylistService.getPlaylistKalaams(restored.id)).map(k => k.id)).toEqual([3, 1]);
+    expect(await target.database.getSetting('theme')).toBe('dark');
+    expect(await target.database.getSetting('cdc_progress')).toBeNull();
+  });
+
+  test('merges into what is already there, within the pin limit', async () => {
+    const source = await loadDevice([1, 2, 3, 4]);
+    for (const id of [1, 2, 3]) {
+      await source.FavoritesService.pinKalaam(id);
+    }
+    const sourcePlaylist = await source.PlaylistService.createPlaylist('Chehlum');
+    await source.PlaylistService.addKalaam(sourcePlaylist, 1);
+    await source.PlaylistService.addKalaam(sourcePlaylist, 2);
+    const backup = await exportedBackup(source);
+
+    const target = await loadDevice([1, 2, 3, 4]);
+    await target.FavoritesService.pinKalaam(4);
+    await target.FavoritesService.addFavorite(1);
+    const targetPlaylist = await target.PlaylistService.createPlaylist('Chehlum');
+    await target.PlaylistService.addKalaam(targetPlaylist, 2);
+
+    const summary = await target.BackupService.restoreBackup(backup, 'merge');
+
+    expect(summary.favourites).toBe(2);
+    const pinned = (await favouriteRows(target)).filter(row => row.kalaam_id >= 0 && row.pinned);
+    expect(pinned.map(row => row.kalaam_id)).toEqual([2, 3, 4]);
+    expect(await target.FavoritesService.isPinned(1)).toBe(false);
+    const playlists = await target.PlaylistService.getPlaylists();
+    expect(playlists).toHaveLength(1);
+    expect((await target.PlaylistService.getPlaylistKalaams(targetPlaylist)).map(k => k.id)).toEqual([2, 1]);
+  });
+
+  test('rejects files that are not backups it can read', async () => {
+    const { BackupService } = await loadDevice([]);
+
+    expect(() => BackupService.parseBackup('not json')).toThrow('not a Pursadari backup');
+    expect(() => BackupService.parseBackup('{"format":"other"}')).toThrow('not a Pursadari backup');
+    expect(() =>
+      BackupService.parseBackup(JSON.stringify({ format: 'pursadari-backup', version: 99, favourites: [], playlists: [], settings: {} })),
+    ).toThrow('newer version');
+    expect(() =>
+      BackupService.parseBackup(JSON.stringify({ format: 'pursadari-backup', version: 1, favourites: [{ kalaamId: 'x' }], playlists: [], settings: {} })),
+    ).toThrow('damaged');
+    expect(
+      BackupService.parseBackup(JSON.stringify({ format: 'pursadari-backup', version: 1, favourites: [], playlists: [], settings: { theme: 'dark', cdc_progress: '{}' } })).settings,
+    ).toEqual({ theme: 'dark' });
+  });
+});
@@ -0,0 +1,499 @@
+/**
+ * @format
+ */
+
+import type { SQLiteDatabase } from 'react-native-sqlite-storage';
+import { loadIsolated } from './helpers/isolatedModules';
+
+// A fresh Database singleton and SQLite mock per test
+function load() {
+  const { SQLite, database } = loadIsolated('SQLite', 'database');
+  return { database, open: async () => SQLite.openDatabase({ name: 'database.sqlite' }) };
+}
+
+async function seedBundle(db: SQLiteDatabase, meta?: Record<string, string>) {
+  await db.executeSql(
+    'CREATE TABLE kalaam (id INTEGER PRIMARY KEY, title TEXT NOT NULL, last_modified TIMESTAMP)',
+  );
+  await db.executeSql(
+    "INSERT INTO kalaam (id, title, last_modified) VALUES (1, 'Noha', '2025-01-01T00:00:00.000Z'), (2, 'Marsiya', '2025-02-01T00:00:00.000Z')",
+  );
+  if (meta) {
+    await db.executeSql('CREATE TABLE bundle_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+    for (const [key, value] of Object.entries(meta)) {
+      await db.executeSql('INSERT INTO bundle_meta (key, value) VALUES (?, ?)', [key, value]);
+    }
+  }
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('sync baseline', () => {
+  test('starts from the bundle build time on first open', async () => {
+    const { database, open } = load();
+    await seedBundle(await open(), {
+      built_at: '2025-03-01T12:00:00.000Z',
+      record_count: '2',
+    });
+
+    await database.init();
+
+    expect(await database.getLastSyncTimestamp()).toBe(
+      Date.parse('2025-03-01T12:00:00.000Z'),
+    );
+    expect(await database.getBundleMeta()).toEqual({
+      builtAt: '2025-03-01T12:00:00.000Z',
+      recordCount: 2,
+    });
+  });
+
+  test('counts special content like the bundle stamp does', async () => {
+    const { database, open } = load();
+    const db = await open();
+    await seedBundle(db, { built_at: '2025-03-01T12:00:00.000Z', record_count: '3' });
+    await db.executeSql("INSERT INTO kalaam (id, title) VALUES (-1, 'Hadees e Kisa')");
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await database.init();
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test('falls back to the newest bundled change without metadata', async () => {
+    const { database, open } = load();
+    await seedBundle(await open());
+
+    await database.init();
+
+    expect(await database.getBundleMeta()).toBeNull();
+    expect(await database.getLastSyncTimestamp()).toBe(
+      Date.parse('2025-02-01T00:00:00.000Z'),
+    );
+  });
+
+  test('never rewinds a watermark sync has advanced', async () => {
+    const { database, open } = load();
+    const db = await open();
+    await seedBundle(db, { built_at: '2025-03-01T12:00:00.000Z', record_count: '2' });
+    await db.executeSql(
+      'CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at DATETIME)',
+    );
+    await db.executeSql(
+      "INSERT INTO settings (key, value) VALUES ('last_source_sync_timestamp', '1760000000000')",
+    );
+
+    await database.init();
+
+    expect(await database.getLastSyncTimestamp()).toBe(1760000000000);
+  });
+});
+
+describe('sync event log', () => {
+  test('keeps each run with its counts, newest first', async () => {
+    const { database } = load();
+    await database.init();
+
+    await database.recordSyncEvent({
+      type: 'background',
+      timestamp: 1000,
+      duration: 120,
+      recordsProcessed: 3,
+      activeRecords: 2,
+      deletedRecords: 1,
+      success: true,
+    });
+    await database.recordSyncEvent({
+      type: 'manual',
+      timestamp: 2000,
+      duration: 40,
+      recordsProcessed: 0,
+      activeRecords: 0,
+      deletedRecords: 0,
+      success: false,
+      error: 'offline',
+    });
+
+    expect(await database.getSyncEvents()).toEqual([
+      expect.objectContaining({ type: 'manual', success: false, error: 'offline' }),
+      {
+        type: 'background',
+        timestamp: 1000,
+        duration: 120,
+        recordsProcessed: 3,
+        activeRecords: 2,
+        deletedRecords: 1,
+        success: true,
+        error: undefined,
+      },
+    ]);
+  });
+});
+
+describe('recently added', () => {
+  async function loadWithCatalogue() {
+    const { database, open } = load();
+    await database.init();
+    await database.applyChanges(
+      [
+        { id: 1, title: 'Noha', last_modified: '2025-01-01T00:00:00.000Z' },
+        { id: 2, title: 'Marsiya', last_modified: '2025-02-01T00:00:00.000Z' },
+      ],
+      [],
+    );
+    await (await open()).executeSql('DELETE FROM recent_changes');
+    return database;
+  }
+
+  test('lists synced kalaams newest first, keeping how each first arrived', async () => {
+    const database = await loadWithCatalogue();
+
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(1000);
+    await database.applyChanges(
+      [
+        { id: 3, title: 'Salaam', last_modified: '2025-04-01T00:00:00.000Z' },
+        { id: 1, title: 'Noha (revised)', last_modified: '2025-04-01T00:00:00.000Z' },
+      ],
+      [],
+    );
+    now.mockReturnValue(2000);
+    await database.applyChanges(
+      [{ id: 3, title: 'Salaam (revised)', last_modified: '2025-04-02T00:00:00.000Z' }],
+      [],
+    );
+
+    const recent = await database.getRecentlyAdded();
+    expect(recent.map(k => [k.id, k.title, k.change_type, k.changed_at])).toEqual([
+      [3, 'Salaam (revised)', 'added', 2000],
+      [1, 'Noha (revised)', 'updated', 1000],
+    ]);
+  });
+
+  test('skips rows a sync re-reads unchanged and drops deleted ones', async () => {
+    const database = await loadWithCatalogue();
+
+    await database.applyChanges(
+      [
+        { id: 2, title: 'Marsiya', last_modified: '2025-02-01T00:00:00.000Z' },
+        { id: 4, title: 'Manqabat', last_modified: '2025-04-01T00:00:00.000Z' },
+      ],
+      [],
+    );
+    await database.applyChanges([], [4]);
+
+    expect(await database.getRecentlyAdded()).toEqual([]);
+  });
+});
+
+describe('tombstones', () => {
+  async function loadWithCatalogue() {
+    const { database } = load();
+    await database.init();
+    await database.applyChanges(
+      [
+        { id: 1, title: 'Ya Hussain', poet: 'Mir Anis', masaib: 'Karbala' },
+        { id: 2, title: 'Ya Abbas', poet: 'Mir Anis', masaib: 'Karbala' },
+        { id: 3, title: 'Ya Zainab', poet: 'Dabeer', masaib: 'Shaam' },
+      ],
+      [],
+    );
+    return database;
+  }
+
+  test('a deleted kalaam stays readable by id on request but leaves every listing', async () => {
+    const database = await loadWithCatalogue();
+
+    await database.deleteKalaam(2);
+
+    expect(await database.getKalaamById(2)).toBeNull();
+    expect(await database.getKalaamById(2, { includeDeleted: true })).toEqual(
+      expect.objectContaining({ title: 'Ya Abbas', deleted: true }),
+    );
+    expect(await database.getKalaamCount()).toBe(2);
+    expect(await database.getPoetGroups()).toEqual([
+      { poet: 'Dabeer', count: 1 },
+      { poet: 'Mir Anis', count: 1 },
+    ]);
+    expect(await database.getMasaibGroups()).toContainEqual({ masaib: 'Karbala', count: 1 });
+
+    const byPoet = await database.getKalaamsByPoet('Mir Anis');
+    expect(byPoet.total).toBe(1);
+    expect(byPoet.kalaams.map(k => k.id)).toEqual([1]);
+
+    const search = await database.searchKalaams('ya');
+    expect(search.total).toBe(2);
+    expect(search.kalaams.map(k => k.id).sort()).toEqual([1, 3]);
+  });
+
+  test('a synced upsert brings a tombstone back', async () => {
+    const database = await loadWithCatalogue();
+    await database.deleteKalaam(3);
+
+    await database.upsertKalaam({ id: 3, title: 'Ya Zainab (restored)' });
+
+    expect(await database.getKalaamById(3)).toEqual(
+      expect.objectContaining({ title: 'Ya Zainab (restored)', deleted: false }),
+    );
+    expect((await database.searchKalaams('restored')).total).toBe(1);
+    expect(await database.getKalaamCount()).toBe(3);
+  });
+});
+
+describe('visibility', () => {
+  async function loadMixedCatalogue() {
+    const { database } = load();
+    await database.init();
+    await database.applyChanges(
+      [
+        { id: -1, title: 'Hadees e Kisa' },
+        { id: 1, title: 'Ya Hussain', poet: 'Mir Anis', reciter: 'Nadeem', masaib: 'Karbala' },
+        { id: 2, title: 'Ya Abbas', poet: 'Mir Anis', reciter: 'Nadeem', masaib: 'Karbala' },
+        { id: 3, title: 'Ya Zainab', poet: 'Dabeer', reciter: 'Nadeem', masaib: 'Shaam' },
+        { id: 4, title: 'Ya Sakina', poet: 'Dabeer', reciter: 'Rizwan', masaib: 'Shaam' },
+      ],
+      [3],
+    );
+    return database;
+  }
+
+  test('every group count matches the list it opens', async () => {
+    const database = await loadMixedCatalogue();
+
+    const lists = [
+      ...(await database.getMasaibGroups()).map(g => [g.count, database.getKalaamsByMasaib(g.masaib)] as const),
+      ...(await database.getPoetGroups()).map(g => [g.count, database.getKalaamsByPoet(g.poet)] as const),
+      ...(await database.getReciterGroups()).map(g => [g.count, database.getKalaamsByReciter(g.reciter)] as const),
+    ];
+    expect(lists.length).toBeGreaterThan(0);
+    for (const [count, pending] of lists) {
+      const list = await pending;
+      expect(list.total).toBe(count);
+      expect(list.kalaams).toHaveLength(count);
+    }
+
+    const tombstonedOnly = await database.getKalaamsByReciterAndMasaib('Nadeem', 'Shaam');
+    expect(tombstonedOnly.total).toBe(0);
+    expect(await database.getMasaibByReciter('Nadeem')).toEqual(['Karbala']);
+  });
+
+  test('special content stays out of browsing but can be searched', async () => {
+    const database = await loadMixedCatalogue();
+
+    expect(await database.getKalaamCount()).toBe(3);
+    expect((await database.getRecentlyAdded()).map(k => k.id)).not.toContain(-1);
+
+    const search = await database.searchKalaams('kisa');
+    expect(search.total).toBe(1);
+    expect(search.kalaams[0].id).toBe(-1);
+  });
+});
+
+describe('full-text search', () => {
+  test('ranks title matches above lyrics matches', async () => {
+    const { database } = load();
+    await database.init();
+    await database.applyChanges(
+      [
+        { id: 1, title: 'Alamdar', lyrics_eng: 'Ghazi Abbas ka alam' },
+        { id: 2, title: 'Ya Abbas', lyrics_eng: 'Salaam' },
+        { id: 3, title: 'Ya Sakina', lyrics_eng: 'Bibi Sakina' },
+      ],
+      [],
+    );
+
+    const search = await database.searchKalaams('abbas');
+
+    expect(search.kalaams.map(k => k.id)).toEqual([2, 1]);
+    expect(search.total).toBe(2);
+  });
+
+  test('needs every term to match, whichever spelling of it did', async () => {
+    const { database } = load();
+    await database.init();
+    await database.applyChanges(
+      [
+        { id: 1, title: 'Abbas ka alam' },
+        { id: 2, title: 'Abbas Karbala mein' },
+        { id: 3, title: 'Alamdar', lyrics_eng: 'Abas aur Karbala' },
+      ],
+      [],
+    );
+
+    const search = await database.searchKalaams('abbas karbala');
+
+    expect(search.kalaams.map(k => k.id).sort()).toEqual([2, 3]);
+    expect(search.total).toBe(2);
+  });
+
+  test('falls back to LIKE scans without an FTS module', async () => {
+    const { database, open } = load();
+    const db = await open();
+    const executeSql = db.executeSql.bind(db);
+    jest.spyOn(db, 'executeSql').mockImplementation(((sql: string, params?: any[]) =>
+      /CREATE VIRTUAL TABLE/i.test(sql)
+        ? Promise.reject(new Error('no such module'))
+        : executeSql(sql, params)) as typeof db.executeSql);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await database.init();
+    await database.applyChanges(
+      [
+        { id: 1, title: 'Alamdar', lyrics_eng: 'Ghazi Abbas ka alam' },
+        { id: 2, title: 'Ya Abbas', lyrics_eng: 'Salaam' },
+      ],
+      [],
+    );
+
+    const search = await database.searchKalaams('bba');
+
+    // Substrings match, which FTS never does; titles still rank first
+    expect(search.kalaams.map(k => k.id)).toEqual([2, 1]);
+    const [tables] = await db.executeSql("SELECT name FROM sqlite_master WHERE name = 'kalaam_fts'");
+    expect(tables.rows.length).toBe(0);
+  });
+
+  test('builds the index over bundled rows and searches it by MATCH', async () => {
+    const { database, open } = load();
+    const db = await open();
+    // A bundle carries the full kalaam table before any migration runs
+    await db.executeSql(
+      `CREATE TABLE kalaam (
+        id INTEGER PRIMARY KEY, title TEXT NOT NULL, lyrics_urdu TEXT, lyrics_eng TEXT,
+        poet TEXT, reciter TEXT, masaib TEXT, yt_link TEXT, source_url TEXT, fetched_at TEXT
+      )`,
+    );
+    await db.executeSql(
+      "INSERT INTO kalaam (id, title, lyrics_eng) VALUES (1, 'Ya Hussain', 'Karbala'), (2, 'Marsiya', 'Ghazi')",
+    );
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await database.init();
+
+    expect(errors).not.toHaveBeenCalled();
+    const [index] = await db.executeSql('SELECT COUNT(*) as count FROM kalaam_fts WHERE kalaam_fts MATCH ?', ['karbala']);
+    expect(index.rows.item(0).count).toBe(1);
+    // A spelling variant only the phonetic columns can match
+    expect((await database.searchKalaams('husain')).kalaams.map(k => k.id)).toEqual([1]);
+    expect(await database.getSetting('search_index_version')).not.toBeNull();
+  });
+});
+
+describe('search filters', () => {
+  async function loadSearchCatalogue() {
+    const { database } = load();
+    await database.init();
+    await database.applyChanges(
+      [
+        { id: 1, title: 'Ya Abbas', poet: 'Mir Anis', reciter: 'Mir Hasan Mir', masaib: 'Karbala', lyrics_eng: 'Abbas alamdar' },
+        { id: 2, title: 'Alam', poet: 'Dabeer', reciter: 'Mir Hasan Mir', masaib: 'Karbala', lyrics_urdu: 'عباس', yt_link: 'https://youtu.be/x' },
+        { id: 3, title: 'Ghazi Abbas', poet: 'Mir Anis', reciter: 'Nadeem', masaib: 'Karbala', lyrics_eng: 'Abbas' },
+        { id: 4, title: 'Ya Sakina', poet: 'Dabeer', reciter: 'Mir Hasan Mir', masaib: 'Shaam', lyrics_eng: 'Abbas chacha' },
+      ],
+      [],
+    );
+    return database;
+  }
+
+  test('narrows a text search by reciter, masaib and content', async () => {
+    const database = await loadSearchCatalogue();
+
+    const byReciter = await database.searchKalaams('abbas', 1, 50, { reciter: 'Mir Hasan Mir', masaib: 'Karbala' });
+    expect(byReciter.total).toBe(1);
+    expect(byReciter.kalaams.map(k => k.id)).toEqual([1]);
+
+    const withEnglish = await database.searchKalaams('abbas', 1, 50, { hasEnglish: true });
+    expect(withEnglish.kalaams.map(k => k.id).sort()).toEqual([1, 3, 4]);
+
+    // Filters alone list by title
+    const withVideo = await database.searchKalaams('', 1, 50, { hasVideo: true });
+    expect(withVideo.kalaams.map(k => k.id)).toEqual([2]);
+    expect((await database.searchKalaams('', 1, 50, {})).total).toBe(0);
+  });
+
+  test('pages through every result, past any cap', async () => {
+    const { database } = load();
+    await database.init();
+    await database.applyChanges(
+      Array.from({ length: 25 }, (_, i) => ({ id: i + 1, title: `Noha ${i + 1}`, lyrics_eng: 'Ya Hussain' })),
+      [],
+    );
+
+    const pages = [];
+    for (let page = 1; page <= 3; page++) {
+      pages.push(await database.searchKalaams('hussain', page, 10));
+    }
+
+    expect(pages.map(p => p.total)).toEqual([25, 25, 25]);
+    expect(pages.map(p => p.kalaams.length)).toEqual([10, 10, 5]);
+    const ids = pages.flatMap(p => p.kalaams.map(k => k.id));
+    expect(new Set(ids).size).toBe(25);
+  });
+
+  test('returns the matching lyric line with each hit', async () => {
+    const database = await loadSearchCatalogue();
+
+    const search = await database.searchKalaams('chacha', 1, 50);
+
+    expect(search.kalaams.map(k => [k.id, k.snippet])).toEqual([
+      [4, { language: 'english', line: 0, text: 'Abbas chacha', matches: [{ start: 6, end: 12 }] }],
+    ]);
+    // A title-only hit has nothing to show
+    expect((await database.searchKalaams('sakina')).kalaams[0].snippet).toBeNull();
+  });
+
+  test('counts each facet for the search, ignoring its own filter', async () => {
+    const database = await loadSearchCatalogue();
+
+    const facets = await database.getSearchFacets('abbas', { reciter: 'Nadeem' });
+
+    expect(facets.reciters).toEqual([
+      { reciter: 'Mir Hasan Mir', count: 2 },
+      { reciter: 'Nadeem', count: 1 },
+    ]);
+    expect(facets.poets).toEqual([{ poet: 'Mir Anis', count: 1 }]);
+    expect(facets.masaib).toEqual([{ masaib: 'Karbala', count: 1 }]);
+  });
+
+  test('suggests reciters, poets, masaib and titles by word prefix', async () => {
+    const database = await loadSearchCatalogue();
+
+    expect(await database.getSuggestions('mir')).toEqual([
+      { kind: 'reciter', value: 'Mir Hasan Mir', count: 3, kalaamId: 1 },
+      { kind: 'poet', value: 'Mir Anis', count: 2, kalaamId: 1 },
+    ]);
+    // Any word of a name may match, but names starting with it come first
+    expect((await database.getSuggestions('a')).map(s => [s.kind, s.value])).toEqual([
+      ['poet', 'Mir Anis'],
+      ['title', 'Alam'],
+      ['title', 'Ghazi Abbas'],
+      ['title', 'Ya Abbas'],
+    ]);
+    expect((await database.getSuggestions('Kar')).map(s => [s.kind, s.value, s.count])).toEqual([
+      ['masaib', 'Karbala', 3],
+    ]);
+    // LIKE wildcards are matched literally
+    expect(await database.getSuggestions('%')).toEqual([]);
+    expect(await database.getSuggestions('  ')).toEqual([]);
+  });
+
+  test('suggests titles by every word typed, and names as the catalogue changes', async () => {
+    const database = await loadSearchCatalogue();
+
+    expect(await database.getSuggestions('ya ab')).toEqual([
+      { kind: 'title', value: 'Ya Abbas', count: 1, kalaamId: 1 },
+    ]);
+
+    expect(await database.getSuggestions('nad')).toEqual([
+      { kind: 'reciter', value: 'Nadeem', count: 1, kalaamId: 3 },
+    ]);
+    await database.applyChanges([{ id: 5, title: 'Sakina', reciter: 'Nadeem' }], []);
+    expect(await database.getSuggestions('nad')).toEqual([
+      { kind: 'reciter', value: 'Nadeem', count: 2, kalaamId: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @format
+ */
+
+import { loadIsolated } from './helpers/isolatedModules';
+
+// A fresh Database singleton and SQLite mock per test, with favourites 1..count
+async function loadWithFavourites(count: number) {
+  const { database, FavoritesService } = loadIsolated('database', 'FavoritesService');
+  await database.init();
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  await database.applyChanges(
+    [{ id: -1, title: 'Hadees e Kisa' }, { id: -2, title: 'Ziyarat Ashura' }, ...ids.map(id => ({ id, title: `Noha ${id}` }))],
+    [],
+  );
+  // Special content is favourited on first launch; add the rest in id order
+  for (const id of ids) {
+    await database.ensureInitialized().executeSql(
+      "INSERT INTO favourites (kalaam_id, created_at, pinned) VALUES (?, datetime('2025-01-01', ?), 0)",
+      [id, `+${id} seconds`],
+    );
+  }
+  return { database, FavoritesService };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getFavoriteKalaams', () => {
+  test('pages through every favourite with the full total', async () => {
+    const { FavoritesService } = await loadWithFavourites(5);
+
+    const first = await FavoritesService.getFavoriteKalaams(4);
+    const second = await FavoritesService.getFavoriteKalaams(4, 4);
+
+    expect(first.total).toBe(7);
+    expect(second.total).toBe(7);
+    expect([...first.kalaams, ...second.kalaams].map(k => k.id)).toEqual([-1, -2, 1, 2, 3, 4, 5]);
+    expect(second.page).toBe(2);
+  });
+
+  test('puts pinned favourites after special content', async () => {
+    const { FavoritesService } = await loadWithFavourites(3);
+    await FavoritesService.pinKalaam(3);
+
+    const result = await FavoritesService.getFavoriteKalaams();
+
+    expect(result.kalaams.map(k => k.id)).toEqual([-1, -2, 3, 1, 2]);
+    expect((await FavoritesService.getPinnedKalaams()).map(k => k.id)).toEqual(
+      expect.arrayContaining([-1, -2, 3]),
+    );
+  });
+
+  test('keeps tombstoned favourites, flagged', async () => {
+    const { database, FavoritesService } = await loadWithFavourites(2);
+    await database.deleteKalaam(2);
+
+    const result = await FavoritesService.getFavoriteKalaams();
+
+    expect(result.total).toBe(4);
+    expect(result.kalaams.find(k => k.id === 2)).toEqual(
+      expect.objectContaining({ title: 'Noha 2', deleted: true }),
+    );
+    expect(result.kalaams.find(k => k.id === 1)?.deleted).toBe(false);
+  });
+
+  test('sorts and filters below pins and special content', async () => {
+    const { database, FavoritesService } = await loadWithFavourites(4);
+    await database.applyChanges(
+      [
+        { id: 1, title: 'Dil', reciter: 'Nadeem', masaib: 'Abbas' },
+        { id: 2, title: 'Alvida', reciter: 'Mir Hasan', masaib: 'Abbas' },
+        { id: 3, title: 'Chalo', reciter: 'Nadeem', masaib: 'Asghar' },
+        { id: 4, title: 'Bibi', reciter: null, masaib: 'Zainab' },
+      ],
+      [],
+    );
+    await FavoritesService.pinKalaam(3);
+
+    const byTitle = await FavoritesService.getFavoriteKalaams(50, 0, { sort: 'title' });
+    expect(byTitle.kalaams.map(k => k.id)).toEqual([-1, -2, 3, 2, 4, 1]);
+    const byReciter = await FavoritesService.getFavoriteKalaams(50, 0, { sort: 'reciter' });
+    expect(byReciter.kalaams.map(k => k.id).slice(3)).toEqual([2, 1, 4]);
+
+    const nadeem = await FavoritesService.getFavoriteKalaams(50, 0, { reciter: 'Nadeem', sort: 'title' });
+    expect(nadeem.kalaams.map(k => k.id)).toEqual([3, 1]);
+    expect(nadeem.total).toBe(2);
+    expect(await FavoritesService.getFavoriteFacets()).toEqual({
+      reciters: ['Mir Hasan', 'Nadeem'],
+      masaib: ['Abbas', 'Asghar', 'Zainab'],
+    });
+  });
+});
+
+describe('pins', () => {
+  test('allows three pins besides special content', async () => {
+    const { FavoritesService } = await loadWithFavourites(4);
+
+    expect(await FavoritesService.pinKalaam(1)).toBe('pinned');
+    expect(await FavoritesService.pinKalaam(2)).toBe('pinned');
+    expect(await FavoritesService.pinKalaam(2)).toBe('already_pinned');
+    expect(await FavoritesService.pinKalaam(3)).toBe('pinned');
+    expect(await FavoritesService.pinKalaam(4)).toBe('limit_reached');
+    expect(await FavoritesService.isPinned(4)).toBe(false);
+
+    await FavoritesService.unpinKalaam(1);
+    expect(await FavoritesService.pinKalaam(4)).toBe('pinned');
+  });
+
+  test('keeps the favourite date when pinning', async () => {
+    const { database, FavoritesService } = await loadWithFavourites(2);
+    const createdAt = async (id: number) => {
+      const [result] = await database.ensureInitialized().executeSql(
+        'SELECT created_at, pinned_at FROM favourites WHERE kalaam_id = ?',
+        [id],
+      );
+      return result.rows.item(0);
+    };
+
+    await FavoritesService.pinKalaam(2);
+
+    expect(await createdAt(2)).toEqual({ created_at: '2025-01-01 00:00:02', pinned_at: expect.any(String) });
+    await FavoritesService.unpinKalaam(2);
+    expect(await createdAt(2)).toEqual({ created_at: '2025-01-01 00:00:02', pinned_at: null });
+  });
+
+  test('orders pins manually, below special content', async () => {
+    const { FavoritesService } = await loadWithFavourites(4);
+    await FavoritesService.pinKalaam(1);
+    await FavoritesService.pinKalaam(2);
+    await FavoritesService.pinKalaam(3);
+
+    await FavoritesService.reorderPins([3, 1, 2]);
+
+    expect((await FavoritesService.getPinnedKalaams()).map(k => k.id)).toEqual([-1, -2, 3, 1, 2]);
+    expect((await FavoritesService.getFavoriteKalaams()).kalaams.map(k => k.id)).toEqual([-1, -2, 3, 1, 2, 4]);
+
+    // A new pin goes last
+    await FavoritesService.unpinKalaam(1);
+    await FavoritesService.pinKalaam(4);
+    expect((await FavoritesService.getPinnedKalaams()).map(k => k.id)).toEqual([-1, -2, 3, 2, 4]);
+  });
+});
+
+describe('bulk changes', () => {
+  test('removes favourites together and undoes it, pins included', async () => {
+    const { FavoritesService } = await loadWithFavourites(3);
+    await FavoritesService.pinKalaam(2);
+    const before = await FavoritesService.getFavoriteKalaams();
+
+    const undo = await FavoritesService.removeFavorites([-1, 1, 2]);
+
+    expect(undo.kalaamIds).toEqual([1, 2]);
+    expect((await FavoritesService.getFavoriteKalaams()).kalaams.map(k => k.id)).toEqual([-1, -2, 3]);
+
+    await FavoritesService.undo(undo);
+    expect(await FavoritesService.getFavoriteKalaams()).toEqual(before);
+    expect(await FavoritesService.isPinned(2)).toBe(true);
+  });
+
+  test('pins all of the selection or none of it', async () => {
+    const { FavoritesService } = await loadWithFavourites(4);
+    await FavoritesService.pinKalaam(1);
+
+    expect((await FavoritesService.pinKalaams([2, 3, 4])).result).toBe('limit_reached');
+    expect((await FavoritesService.getPinnedKalaams()).map(k => k.id)).toEqual([-1, -2, 1]);
+
+    const { result, undo } = await FavoritesService.pinKalaams([1, 3, 2]);
+    expect(result).toBe('pinned');
+    expect((await FavoritesService.getPinnedKalaams()).map(k => k.id)).toEqual([-1, -2, 1, 3, 2]);
+
+    await FavoritesService.undo(undo!);
+    expect((await FavoritesService.getPinnedKalaams()).map(k => k.id)).toEqual([-1, -2, 1]);
+  });
+
+  test('moves favourites to the end of a playlist and back', async () => {
+    const { database, FavoritesService } = await loadWithFavourites(3);
+    const db = database.ensureInitialized();
+    await db.executeSql("INSERT INTO playlists (id, name) VALUES (1, 'Majlis')");
+    await db.executeSql('INSERT INTO playlist_items (playlist_id, kalaam_id, position) VALUES (1, 3, 1)');
+    const playlistItems = async () => {
+      const [result] = await db.executeSql(
+        'SELECT kalaam_id FROM playlist_items WHERE playlist_id = 1 ORDER BY position',
+      );
+      return Array.from({ length: result.rows.length }, (_, i) => result.rows.item(i).kalaam_id);
+    };
+
+    const undo = await FavoritesService.moveToPlaylist([2, 3, 1], 1);
+
+    expect(await playlistItems()).toEqual([3, 2, 1]);
+    expect((await FavoritesService.getFavoriteKalaams()).total).toBe(2);
+
+    await FavoritesService.undo(undo);
+    expect(await playlistItems()).toEqual([3]);
+    expect((await FavoritesService.getFavoriteKalaams()).total).toBe(5);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @format
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { syncManager } from '../src/services/SyncManager';
+import { notificationService } from '../src/services/NotificationService';
+import { ForegroundSyncManager } from '../src/services/ForegroundSyncManager';
+import { SyncConfig } from '../src/types';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: {
+    fetch: jest.fn(),
+    addEventListener: jest.fn(),
+  },
+}));
+
+jest.mock('../src/services/NotificationService', () => ({
+  notificationService: {
+    initialize: jest.fn(async () => {}),
+    showNetworkNotification: jest.fn(),
+    showSyncNotification: jest.fn(),
+  },
+}));
+
+jest.mock('../src/services/SyncManager', () => {
+  let config: any;
+  return {
+    syncManager: {
+      __setConfig(next: any) {
+        config = next;
+      },
+      loadSyncConfig: jest.fn(async () => config),
+      getSyncConfig: jest.fn(() => config),
+      syncKalaamData: jest.fn(async () => ({
+        success: true,
+        recordsProcessed: 0,
+        activeRecords: 0,
+        deletedRecords: 0,
+      })),
+    },
+  };
+});
+
+const mockedNetInfo = NetInfo as jest.Mocked<typeof NetInfo>;
+const mockedSync = syncManager as jest.Mocked<typeof syncManager> & {
+  __setConfig(config: SyncConfig): void;
+};
+
+const baseConfig: SyncConfig = {
+  backgroundSyncInterval: 30,
+  foregroundSyncOnAppOpen: true,
+  wifiOnlySync: false,
+  maxRetryAttempts: 3,
+  batchSize: 100,
+};
+
+let networkListener: (state: any) => void;
+let appStateListener: (state: AppStateStatus) => void;
+
+// Start a manager on the given connection, with its listeners captured
+async function startForeground(config: Partial<SyncConfig>, network: { isConnected: boolean; type: string }) {
+  mockedSync.__setConfig({ ...baseConfig, ...config });
+  mockedNetInfo.fetch.mockResolvedValue(network as any);
+  const manager = new ForegroundSyncManager();
+  await manager.initialize();
+  return manager;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockedNetInfo.addEventListener.mockImplementation((listener: any) => {
+    networkListener = listener;
+    return () => {};
+  });
+  jest.spyOn(AppState, 'addEventListener').mockImplementation(((_type: string, listener: any) => {
+    appStateListener = listener;
+    return { remove: () => {} };
+  }) as any);
+  (AppState as any).currentState = 'active';
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('app open', () => {
+  test('syncs when the app opens and when it comes back to the foreground', async () => {
+    await startForeground({}, { isConnected: true, type: 'cellular' });
+    expect(mockedSync.syncKalaamData).toHaveBeenCalledWith('foreground');
+
+    appStateListener('background');
+    appStateListener('active');
+
+    expect(mockedSync.syncKalaamData).toHaveBeenCalledTimes(2);
+  });
+
+  test('does nothing with foreground sync turned off', async () => {
+    await startForeground({ foregroundSyncOnAppOpen: false }, { isConnected: true, type: 'wifi' });
+    appStateListener('active');
+    networkListener({ isConnected: false, type: 'none' });
+    networkListener({ isConnected: true, type: 'wifi' });
+
+    expect(mockedSync.syncKalaamData).not.toHaveBeenCalled();
+    expect(notificationService.showNetworkNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe('reconnect', () => {
+  test('syncs when the connection comes back while the app is open', async () => {
+    await startForeground({}, { isConnected: false, type: 'none' });
+    expect(mockedSync.syncKalaamData).not.toHaveBeenCalled();
+
+    networkListener({ isConnected: true, type: 'cellular' });
+    // Already online: no second sync
+    networkListener({ isConnected: true, type: 'wifi' });
+
+    expect(mockedSync.syncKalaamData).toHaveBeenCalledTimes(1);
+    expect(notificationService.showNetworkNotification).toHaveBeenCalledWith(true);
+  });
+
+  test('with Wi-Fi only sync, waits for Wi-Fi', async () => {
+    await startForeground({ wifiOnlySync: true }, { isConnected: true, type: 'cellular' });
+    appStateListener('active');
+    expect(mockedSync.syncKalaamData).not.toHaveBeenCalled();
+
+    networkListener({ isConnected: true, type: 'wifi' });
+
+    expect(mockedSync.syncKalaamData).toHaveBeenCalledTimes(1);
+  });
+
+  test('leaves reconnects in the background to background sync', async () => {
+    await startForeground({}, { isConnected: false, type: 'none' });
+    (AppState as any).currentState = 'background';
+
+    networkListener({ isConnected: true, type: 'wifi' });
+
+    expect(mockedSync.syncKalaamData).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @format
+ */
+
+import { kalaamRowFromDocument, localKalaamId } from '../src/database/KalaamMapper';
+
+describe('kalaamRowFromDocument', () => {
+  test('keeps only known fields', () => {
+    expect(
+      kalaamRowFromDocument('42', {
+        title: 'Ya Hussain',
+        poet: 'Mir Anees',
+        action: 'INSERT',
+        submitted_by: 'someone@example.com',
+      }),
+    ).toEqual({ id: 42, title: 'Ya Hussain', poet: 'Mir Anees' });
+  });
+
+  test('leaves out fields the server did not send', () => {
+    const row = kalaamRowFromDocument(7, { title: 'Noha' });
+    expect(row).not.toHaveProperty('source_url');
+    expect(row).not.toHaveProperty('fetched_at');
+    expect(row).not.toHaveProperty('deleted');
+  });
+
+  test('converts timestamps and flags', () => {
+    const at = new Date('2024-10-08T12:01:00Z');
+    expect(
+      kalaamRowFromDocument('1', {
+        last_modified: { toDate: () => at },
+        fetched_at: at.getTime(),
+        deleted: true,
+      }),
+    ).toEqual({
+      id: 1,
+      last_modified: '2024-10-08T12:01:00.000Z',
+      fetched_at: '2024-10-08T12:01:00.000Z',
+      deleted: 1,
+    });
+  });
+
+  test('drops values of the wrong type', () => {
+    expect(
+      kalaamRowFromDocument('3', { title: { nested: true }, deleted: 'yes' }),
+    ).toEqual({ id: 3 });
+  });
+
+  test('rejects ids with no local integer id', () => {
+    expect(kalaamRowFromDocument('draft-7', {})).toBeNull();
+  });
+
+  test('maps submitted ids onto the ids the approval scripts generate', () => {
+    expect(localKalaamId('1760000000123456')).toBe(1760000000123456);
+    // 'abc' is 13368 in base 36
+    expect(localKalaamId('user_submitted_1760000000123_abc')).toBe(1760000000123368);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @format
+ */
+
+import SQLite, { SQLiteDatabase } from 'react-native-sqlite-storage';
+import {
+  MIGRATIONS,
+  Migration,
+  getSchemaVersion,
+  runMigrations,
+} from '../src/database/Migrations';
+
+let opened = 0;
+
+async function openDatabase(): Promise<SQLiteDatabase> {
+  return SQLite.openDatabase({ name: `migrations-${opened++}` });
+}
+
+async function columnsOf(db: SQLiteDatabase, table: string): Promise<string[]> {
+  const [result] = await db.executeSql(`PRAGMA table_info(${table})`);
+  const columns: string[] = [];
+  for (let i = 0; i < result.rows.length; i++) {
+    columns.push(result.rows.item(i).name);
+  }
+  return columns;
+}
+
+async function tableExists(db: SQLiteDatabase, name: string): Promise<boolean> {
+  const [result] = await db.executeSql(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+    [name],
+  );
+  return result.rows.length > 0;
+}
+
+const latestVersion = Math.max(...MIGRATIONS.map(m => m.version));
+
+describe('runMigrations', () => {
+  test('builds the schema on an empty database', async () => {
+    const db = await openDatabase();
+
+    expect(await runMigrations(db)).toBe(latestVersion);
+    expect(await getSchemaVersion(db)).toBe(latestVersion);
+    expect(await columnsOf(db, 'kalaam')).toEqual(
+      expect.arrayContaining(['id', 'title', 'source_url', 'last_modified', 'deleted']),
+    );
+    expect(await columnsOf(db, 'favourites')).toContain('pinned');
+    expect(await tableExists(db, 'settings')).toBe(true);
+    expect(await tableExists(db, 'playlist_items')).toBe(true);
+    expect(await tableExists(db, 'saved_searches')).toBe(true);
+  });
+
+  test('upgrades a database created before migrations existed', async () => {
+    const db = await openDatabase();
+    // Bundled kalaam table after the old ad-hoc ALTERs, favourites without pins
+    await db.executeSql(
+      'CREATE TABLE kalaam (id INTEGER PRIMARY KEY, title TEXT NOT NULL, last_modified TIMESTAMP)',
+    );
+    await db.executeSql(
+      'CREATE TABLE favourites (kalaam_id INTEGER PRIMARY KEY, created_at DATETIME)',
+    );
+    await db.executeSql("INSERT INTO kalaam (id, title) VALUES (1, 'Noha')");
+
+    await runMigrations(db);
+
+    expect(await columnsOf(db, 'kalaam')).toEqual(
+      expect.arrayContaining(['last_modified', 'deleted']),
+    );
+    expect(await columnsOf(db, 'favourites')).toContain('pinned');
+    const [result] = await db.executeSql('SELECT title FROM kalaam WHERE id = 1');
+    expect(result.rows.item(0).title).toBe('Noha');
+  });
+
+  test('tombstones favourites whose kalaam was hard-deleted, leaving special content alone', async () => {
+    const db = await openDatabase();
+    await db.executeSql(
+      'CREATE TABLE kalaam (id INTEGER PRIMARY KEY, title TEXT NOT NULL, last_modified TIMESTAMP)',
+    );
+    await db.executeSql(
+      'CREATE TABLE favourites (kalaam_id INTEGER PRIMARY KEY, created_at DATETIME, pinned BOOLEAN DEFAULT FALSE)',
+    );
+    await db.executeSql("INSERT INTO kalaam (id, title) VALUES (1, 'Noha')");
+    await db.executeSql("INSERT INTO favourites (kalaam_id) VALUES ('-1'), ('1'), ('7')");
+
+    await runMigrations(db);
+
+    const [favourites] = await db.executeSql('SELECT kalaam_id FROM favourites ORDER BY kalaam_id');
+    expect(favourites.rows.length).toBe(3);
+    const [kalaams] = await db.executeSql('SELECT id, deleted FROM kalaam ORDER BY id');
+    expect(kalaams.rows.length).toBe(2);
+    expect(kalaams.rows.item(0)).toEqual({ id: 1, deleted: 0 });
+    expect(kalaams.rows.item(1)).toEqual({ id: 7, deleted: 1 });
+  });
+
+  test('numbers existing pins in the order they were pinned', async () => {
+    const db = await openDatabase();
+    await db.executeSql(
+      'CREATE TABLE kalaam (id INTEGER PRIMARY KEY, title TEXT NOT NULL, last_modified TIMESTAMP)',
+    );
+    await db.executeSql(
+      'CREATE TABLE favourites (kalaam_id INTEGER PRIMARY KEY, created_at DATETIME, pinned BOOLEAN DEFAULT FALSE)',
+    );
+    await db.executeSql("INSERT INTO kalaam (id, title) VALUES (-1, 'Hadees e Kisa'), (1, 'A'), (2, 'B'), (3, 'C')");
+    await db.executeSql(
+      `INSERT INTO favourites (kalaam_id, created_at, pinned) VALUES
+        (-1, '2025-01-01', 1), (1, '2025-03-01', 1), (2, '2025-02-01', 1), (3, '2025-01-15', 0)`,
+    );
+
+    await runMigrations(db);
+
+    const [result] = await db.executeSql('SELECT kalaam_id, pin_order FROM favourites ORDER BY kalaam_id');
+    const pinOrders: Record<number, number | null> = {};
+    for (let i = 0; i < result.rows.length; i++) {
+      pinOrders[result.rows.item(i).kalaam_id] = result.rows.item(i).pin_order;
+    }
+    expect(pinOrders).toEqual({ [-1]: null, 1: 2, 2: 1, 3: null });
+  });
+
+  test('does nothing once up to date', async () => {
+    const db = await openDatabase();
+    await runMigrations(db);
+
+    const statements = jest.fn(async () => ['SELECT 1']);
+    const migrations: Migration[] = [
+      ...MIGRATIONS,
+      { version: latestVersion, description: 'already applied', statements },
+    ];
+
+    expect(await runMigrations(db, migrations)).toBe(latestVersion);
+    expect(statements).not.toHaveBeenCalled();
+  });
+
+  test('reports a failing migration and rolls it back', async () => {
+    const db = await openDatabase();
+    await runMigrations(db);
+
+    const broken: Migration = {
+      version: latestVersion + 1,
+      description: 'broken',
+      statements: async () => [
+        'CREATE TABLE half_done (id INTEGER)',
+        'ALTER TABLE no_such_table ADD COLUMN x TEXT',
+      ],
+    };
+
+    await expect(runMigrations(db, [...MIGRATIONS, broken])).rejects.toThrow(
+      `Migration ${latestVersion + 1} (broken) failed`,
+    );
+    expect(await getSchemaVersion(db)).toBe(latestVersion);
+    expect(await tableExists(db, 'half_done')).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @format
+ */
+
+import { loadIsolated } from './helpers/isolatedModules';
+
+// A fresh Database singleton and SQLite mock per test, with kalaams 1..count
+async function loadWithKalaams(count: number) {
+  const modules = loadIsolated('database', 'PlaylistService');
+  await modules.database.init();
+  await modules.database.applyChanges(
+    Array.from({ length: count }, (_, i) => ({ id: i + 1, title: `Noha ${i + 1}` })),
+    [],
+  );
+  return modules;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PlaylistService', () => {
+  test('keeps items in the order they were added, once each', async () => {
+    const { PlaylistService } = await loadWithKalaams(3);
+    const playlistId = await PlaylistService.createPlaylist('  Ashura night ');
+
+    expect(await PlaylistService.addKalaam(playlistId, 2)).toBe(true);
+    expect(await PlaylistService.addKalaam(playlistId, 1)).toBe(true);
+    expect(await PlaylistService.addKalaam(playlistId, 2)).toBe(false);
+    expect(await PlaylistService.addKalaam(playlistId, 3)).toBe(true);
+
+    expect((await PlaylistService.getPlaylistKalaams(playlistId)).map(k => k.id)).toEqual([2, 1, 3]);
+    expect(await PlaylistService.getPlaylist(playlistId)).toEqual(
+      expect.objectContaining({ name: 'Ashura night', item_count: 3 }),
+    );
+    expect(await PlaylistService.getPlaylistIdsFor(2)).toEqual([playlistId]);
+  });
+
+  test('reorders, removes and renames', async () => {
+    const { PlaylistService } = await loadWithKalaams(3);
+    const playlistId = await PlaylistService.createPlaylist('Chehlum');
+    for (const id of [1, 2, 3]) {
+      await PlaylistService.addKalaam(playlistId, id);
+    }
+
+    await PlaylistService.reorderPlaylist(playlistId, [3, 1, 2]);
+    await PlaylistService.removeKalaam(playlistId, 1);
+    await PlaylistService.addKalaam(playlistId, 1);
+    await PlaylistService.renamePlaylist(playlistId, 'Chehlum majlis');
+
+    expect((await PlaylistService.getPlaylistKalaams(playlistId)).map(k => k.id)).toEqual([3, 2, 1]);
+    expect((await PlaylistService.getPlaylist(playlistId))?.name).toBe('Chehlum majlis');
+    await expect(PlaylistService.renamePlaylist(playlistId, '  ')).rejects.toThrow('Playlist name cannot be empty');
+  });
+
+  test('deletes a playlist with its items and keeps tombstones flagged', async () => {
+    const { database, PlaylistService } = await loadWithKalaams(2);
+    const keep = await PlaylistService.createPlaylist('Keep');
+    const drop = await PlaylistService.createPlaylist('Drop');
+    await PlaylistService.addKalaam(keep, 1);
+    await PlaylistService.addKalaam(keep, 2);
+    await PlaylistService.addKalaam(drop, 1);
+    await database.deleteKalaam(2);
+
+    await PlaylistService.deletePlaylist(drop);
+
+    expect((await PlaylistService.getPlaylists()).map(p => [p.name, p.item_count])).toEqual([['Keep', 2]]);
+    expect(await PlaylistService.getPlaylistIdsFor(1)).toEqual([keep]);
+    expect((await PlaylistService.getPlaylistKalaams(keep)).map(k => [k.id, k.deleted])).toEqual([
+      [1, false],
+      [2, true],
+    ]);
+  });
+});
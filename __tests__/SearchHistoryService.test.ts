@@ -0,0 +1,80 @@
+/**
+ * @format
+ */
+
+import { loadIsolated } from './helpers/isolatedModules';
+
+// A fresh Database singleton and SQLite mock per test
+async function loadHistoryService() {
+  const { database, SearchHistoryService } = loadIsolated('database', 'SearchHistoryService');
+  await database.init();
+  return SearchHistoryService;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('SearchHistoryService', () => {
+  test('keeps recent queries newest first, once each, up to the cap', async () => {
+    const SearchHistoryService = await loadHistoryService();
+
+    await SearchHistoryService.recordQuery('ya hussain');
+    await SearchHistoryService.recordQuery('  ');
+    await SearchHistoryService.recordQuery('ghazi');
+    await SearchHistoryService.recordQuery('Ya Hussain ');
+
+    expect(await SearchHistoryService.getRecentQueries()).toEqual(['Ya Hussain', 'ghazi']);
+
+    for (let i = 0; i < SearchHistoryService.MAX_RECENT; i++) {
+      await SearchHistoryService.recordQuery(`query ${i}`);
+    }
+    const recent = await SearchHistoryService.getRecentQueries();
+    expect(recent).toHaveLength(SearchHistoryService.MAX_RECENT);
+    expect(recent[0]).toBe(`query ${SearchHistoryService.MAX_RECENT - 1}`);
+    expect(recent).not.toContain('ghazi');
+  });
+
+  test('removes and clears recent queries', async () => {
+    const SearchHistoryService = await loadHistoryService();
+    await SearchHistoryService.recordQuery('abbas');
+    await SearchHistoryService.recordQuery('sakina');
+
+    await SearchHistoryService.removeRecentQuery('abbas');
+    expect(await SearchHistoryService.getRecentQueries()).toEqual(['sakina']);
+
+    await SearchHistoryService.clearRecentQueries();
+    expect(await SearchHistoryService.getRecentQueries()).toEqual([]);
+  });
+
+  test('saves named searches with their filters, pinned ones first', async () => {
+    const SearchHistoryService = await loadHistoryService();
+
+    const karbala = await SearchHistoryService.saveSearch(' Karbala by Mir Hasan ', 'abbas', {
+      reciter: 'Mir Hasan Mir',
+      masaib: 'Karbala',
+    });
+    const videos = await SearchHistoryService.saveSearch('Videos', '', { hasVideo: true });
+    await SearchHistoryService.setPinned(karbala, true);
+    await expect(SearchHistoryService.saveSearch('  ', 'x', {})).rejects.toThrow('Search name cannot be empty');
+
+    expect(await SearchHistoryService.getSavedSearches()).toEqual([
+      expect.objectContaining({
+        id: karbala,
+        name: 'Karbala by Mir Hasan',
+        query: 'abbas',
+        filters: { reciter: 'Mir Hasan Mir', masaib: 'Karbala' },
+        pinned: true,
+      }),
+      expect.objectContaining({ id: videos, filters: { hasVideo: true }, pinned: false }),
+    ]);
+
+    await SearchHistoryService.deleteSavedSearch(karbala);
+    expect(await SearchHistoryService.getSavedSearch(karbala)).toBeNull();
+    expect((await SearchHistoryService.getSavedSearches()).map(s => s.id)).toEqual([videos]);
+  });
+});
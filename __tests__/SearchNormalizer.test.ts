@@ -0,0 +1,104 @@
+/**
+ * @format
+ */
+
+import {
+  normalizeRomanUrdu,
+  normalizeUrduScript,
+} from '../src/utils/SearchNormalizer';
+import { queryTermGroups } from '../src/database/SearchIndex';
+
+describe('normalizeRomanUrdu', () => {
+  test.each([
+    ['nohay', 'Nohe'],
+    ['nohey', 'nohe'],
+    ['Hussain', 'Husain'],
+    ['mein', 'main'],
+    ['ghazi', 'gazi'],
+    ['Khuda', 'xuda'],
+    ['aaya', 'aya'],
+    ['Zaynab', 'Zainab'],
+    ['Abbas', 'Abas'],
+  ])('"%s" and "%s" share a key', (a, b) => {
+    expect(normalizeRomanUrdu(a)).toBe(normalizeRomanUrdu(b));
+  });
+
+  test('keeps distinct words apart', () => {
+    expect(normalizeRomanUrdu('noha')).not.toBe(normalizeRomanUrdu('nohe'));
+    expect(normalizeRomanUrdu('sakina')).not.toBe(normalizeRomanUrdu('zainab'));
+  });
+
+  test('normalises whole lines word by word', () => {
+    expect(normalizeRomanUrdu('Dhoop mein  tu tha shajar')).toBe(
+      'dup mai tu ta shajar',
+    );
+  });
+
+  test('drops punctuation and Urdu script', () => {
+    expect(normalizeRomanUrdu('Shah-e-Karbala!')).toBe('sha i karbala');
+    expect(normalizeRomanUrdu('تو نہ آیا')).toBe('');
+  });
+
+  test('keeps a word with accented letters whole', () => {
+    expect(normalizeRomanUrdu('Naïve café')).toBe(normalizeRomanUrdu('naive cafe'));
+    expect(normalizeRomanUrdu('Straße')).toBe('strai');
+  });
+});
+
+describe('normalizeUrduScript', () => {
+  test.each([
+    ['Arabic yeh', 'علي', 'علی'],
+    ['alef maksura', 'موسى', 'موسی'],
+    ['Arabic kaf', 'كربلا', 'کربلا'],
+    ['Arabic heh', 'ماه', 'ماہ'],
+    ['do-chashmi heh', 'دھوپ', 'دہوپ'],
+    ['teh marbuta', 'فاطمة', 'فاطمہ'],
+    ['hamza on yeh', 'جائے', 'جایے'],
+    ['madda', 'آیا', 'ایا'],
+  ])('folds %s', (_name, input, expected) => {
+    expect(normalizeUrduScript(input)).toBe(expected);
+  });
+
+  test('drops harakat and tatweel', () => {
+    expect(normalizeUrduScript('حُسَینؑ')).toBe('حسین');
+    expect(normalizeUrduScript('تُو نہ آیا')).toBe(normalizeUrduScript('تو نہ ایا'));
+    expect(normalizeUrduScript('عـلی')).toBe('علی');
+  });
+
+  test('converts Arabic-Indic digits', () => {
+    expect(normalizeUrduScript('۱۲ ٣')).toBe('12 3');
+  });
+
+  test('leaves Latin text alone', () => {
+    expect(normalizeUrduScript('Tu na aaya ghazi')).toBe('Tu na aaya ghazi');
+  });
+});
+
+describe('queryTermGroups', () => {
+  test('pairs each term with its phonetic key', () => {
+    expect(queryTermGroups('Nohay Hussain')).toEqual([
+      ['nohay', 'nuhi'],
+      ['hussain', 'husain'],
+    ]);
+  });
+
+  test('normalises Urdu script terms like the index does', () => {
+    expect(queryTermGroups('دھوپ میں تُو')).toEqual([
+      ['دہوپ', ''],
+      ['میں', ''],
+      ['تو', ''],
+    ]);
+  });
+
+  test('gives a term with accented letters a one-word key', () => {
+    expect(queryTermGroups('Naïve')).toEqual([['naïve', normalizeRomanUrdu('naive')]]);
+  });
+
+  test('splits on characters that mean something to FTS', () => {
+    expect(queryTermGroups('"abbas" OR ghazi*').map(g => g[0])).toEqual([
+      'abbas',
+      'or',
+      'ghazi',
+    ]);
+  });
+});
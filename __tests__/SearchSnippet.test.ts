@@ -0,0 +1,51 @@
+/**
+ * @format
+ */
+
+import { queryTermGroups } from '../src/database/SearchIndex';
+import { bestMatchingLine, lyricLines } from '../src/database/SearchSnippet';
+
+const kalaam = {
+  lyrics_eng: 'Ghazi ka alam\nAbbas, Abbas\nTu na aaya Ghazi Abbas',
+  lyrics_urdu: 'غازی کا علم\nتو نہ آیا غازی',
+};
+
+describe('bestMatchingLine', () => {
+  test('picks the line matching the most terms, with word offsets', () => {
+    expect(bestMatchingLine(kalaam, queryTermGroups('ghazi abbas'))).toEqual({
+      language: 'english',
+      line: 2,
+      text: 'Tu na aaya Ghazi Abbas',
+      matches: [
+        { start: 11, end: 16 },
+        { start: 17, end: 22 },
+      ],
+    });
+  });
+
+  test('matches spelling variants and prefixes, like the index', () => {
+    const snippet = bestMatchingLine(kalaam, queryTermGroups('aya gaz'));
+
+    expect(snippet?.line).toBe(2);
+    expect(snippet?.matches.map(m => snippet.text.slice(m.start, m.end))).toEqual(['aaya', 'Ghazi']);
+  });
+
+  test('finds Urdu lines, folding script variants', () => {
+    // Arabic yeh and a madda-less alef, as an Arabic keyboard types them
+    expect(bestMatchingLine(kalaam, queryTermGroups('ايا'))).toEqual(
+      expect.objectContaining({ language: 'urdu', line: 1, matches: [{ start: 6, end: 9 }] }),
+    );
+  });
+
+  test('has no snippet when no lyric line matches', () => {
+    expect(bestMatchingLine(kalaam, queryTermGroups('sakina'))).toBeNull();
+    expect(bestMatchingLine(kalaam, [])).toBeNull();
+  });
+});
+
+describe('lyricLines', () => {
+  test('splits on any line ending', () => {
+    expect(lyricLines('a\r\nb\n\nc')).toEqual(['a', 'b', '', 'c']);
+    expect(lyricLines(null)).toEqual([]);
+  });
+});
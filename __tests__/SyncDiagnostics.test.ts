@@ -0,0 +1,59 @@
+/**
+ * @format
+ */
+
+import { formatSyncDiagnostics } from '../src/utils/SyncDiagnostics';
+import { SyncDiagnostics } from '../src/types';
+
+const diagnostics: SyncDiagnostics = {
+  watermark: { seconds: 1760000000, nanoseconds: 0, docId: '42' },
+  cdcProgress: { date: '2025-10-09', applied: 5 },
+  pendingCdcDays: ['2025-10-09', '2025-10-10'],
+  network: { isConnected: true, type: 'wifi' },
+  recordCount: 1234,
+  lastSyncDate: '2025-10-10',
+  events: [
+    {
+      type: 'manual',
+      timestamp: Date.parse('2025-10-10T08:00:00.000Z'),
+      duration: 850,
+      recordsProcessed: 3,
+      activeRecords: 2,
+      deletedRecords: 1,
+      success: true,
+    },
+    {
+      type: 'background',
+      timestamp: Date.parse('2025-10-09T08:00:00.000Z'),
+      duration: 30,
+      recordsProcessed: 0,
+      activeRecords: 0,
+      deletedRecords: 0,
+      success: false,
+      error: 'No internet connection',
+    },
+  ],
+};
+
+describe('formatSyncDiagnostics', () => {
+  test('reports sync positions, network state and recent runs', () => {
+    const report = formatSyncDiagnostics(diagnostics, Date.parse('2025-10-10T09:00:00.000Z'));
+
+    expect(report).toContain('Watermark: 2025-10-09T08:53:20.000Z (doc 42)');
+    expect(report).toContain('CDC progress: 2025-10-09, 5 applied');
+    expect(report).toContain('Pending CDC days: 2025-10-09, 2025-10-10');
+    expect(report).toContain('Network: online (wifi)');
+    expect(report).toContain('Local records: 1234');
+    expect(report).toContain(
+      '2025-10-10T08:00:00.000Z manual 850ms processed=3 active=2 deleted=1 ok',
+    );
+    expect(report).toContain('failed: No internet connection');
+  });
+
+  test('says when pending CDC days could not be checked', () => {
+    const report = formatSyncDiagnostics({ ...diagnostics, pendingCdcDays: null, events: [] });
+
+    expect(report).toContain('Pending CDC days: unknown');
+    expect(report).toContain('Recent syncs (0):');
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * @format
+ */
+
+import type { SQLiteDatabase } from 'react-native-sqlite-storage';
+import { CdcDocument } from '../src/types';
+import { loadIsolated } from './helpers/isolatedModules';
+
+type DatabaseModule = typeof import('../src/database/Database');
+
+interface MockTimestamp {
+  seconds: number;
+  nanoseconds: number;
+  toDate(): Date;
+}
+
+// The server side of sync: the kalaam collection and the kalaam_cdc log
+const mockServer = {
+  kalaam: [] as Array<{ id: string; data: Record<string, any> }>,
+  cdc: [] as CdcDocument[],
+  // Reject these kalaam page reads (1-based), as if the connection dropped
+  failPages: [] as number[],
+  pagesRead: 0,
+  pageSizes: [] as number[],
+  network: { isConnected: true, type: 'wifi' },
+};
+
+jest.mock('@react-native-firebase/firestore', () => {
+  class Timestamp {
+    seconds: number;
+    nanoseconds: number;
+    constructor(seconds: number, nanoseconds: number) {
+      this.seconds = seconds;
+      this.nanoseconds = nanoseconds;
+    }
+    toDate() {
+      return new Date(this.seconds * 1000 + this.nanoseconds / 1e6);
+    }
+  }
+  const DOCUMENT_ID = '__name__';
+
+  const compare = (a: MockTimestamp, b: MockTimestamp) =>
+    a.seconds - b.seconds || a.nanoseconds - b.nanoseconds;
+
+  const snapshot = (docs: Array<{ id: string; data: Record<string, any> }>) => ({
+    empty: docs.length === 0,
+    size: docs.length,
+    docs: docs.map(doc => ({
+      id: doc.id,
+      data: () => doc.data,
+      get: (field: string) => doc.data[field],
+    })),
+  });
+
+  // Supports the two query shapes SyncManager builds
+  function query(collection: string, state: { from?: string; after?: any[]; limit?: number }) {
+    return {
+      where: (_field: string, _op: string, value: string) => query(collection, { ...state, from: value }),
+      orderBy: () => query(collection, state),
+      startAfter: (...after: any[]) => query(collection, { ...state, after }),
+      limit: (limit: number) => query(collection, { ...state, limit }),
+      async get() {
+        if (collection === 'kalaam_cdc') {
+          const docs = mockServer.cdc
+            .filter(entry => entry.date >= (state.from ?? ''))
+            .sort((a, b) => a.date.localeCompare(b.date))
+            .map(entry => ({ id: entry.date, data: entry }));
+          return snapshot(docs);
+        }
+        mockServer.pagesRead++;
+        mockServer.pageSizes.push(state.limit ?? Infinity);
+        if (mockServer.failPages.includes(mockServer.pagesRead)) {
+          throw new Error('unavailable');
+        }
+        const [afterTime, afterId] = state.after ?? [];
+        const docs = [...mockServer.kalaam]
+          .sort((a, b) => compare(a.data.last_modified, b.data.last_modified) || a.id.localeCompare(b.id))
+          .filter(doc => {
+            if (!afterTime) return true;
+            const order = compare(doc.data.last_modified, afterTime);
+            return order > 0 || (order === 0 && afterId !== undefined && doc.id > afterId);
+          })
+          .slice(0, state.limit);
+        return snapshot(docs);
+      },
+    };
+  }
+
+  const firestore: any = () => ({ collection: (name: string) => query(name, {}) });
+  firestore.Timestamp = Timestamp;
+  firestore.FieldPath = { documentId: () => DOCUMENT_ID };
+  return { __esModule: true, default: firestore };
+});
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { fetch: jest.fn(async () => mockServer.network) },
+}));
+
+jest.mock('../src/services/NotificationService', () => ({
+  notificationService: {
+    showAlreadySyncedTodayNotification: jest.fn(),
+    showNewKalaamsNotification: jest.fn(),
+  },
+}));
+
+// Fresh Database and SyncManager singletons per test. Given the bytes of a
+// database file, they open that instead of an empty one, as after a restart.
+async function loadSync(file?: Uint8Array) {
+  const { SQLite, database, syncManager, notificationService } = loadIsolated(
+    'SQLite',
+    'database',
+    'syncManager',
+    'notificationService',
+  );
+  if (file) {
+    const sqlJs = await require('sql.js')();
+    // The SQLite mock keeps its sql.js database on `db`
+    const db = (await SQLite.openDatabase({ name: 'database.sqlite' })) as SQLiteDatabase & { db: unknown };
+    db.db = new sqlJs.Database(file);
+  }
+  await database.init();
+  // No retries, so a failed page fails the run
+  syncManager.setSyncConfig({ maxRetryAttempts: 0, batchSize: 2 });
+  return { database, syncManager, notifications: jest.mocked(notificationService) };
+}
+
+const now = Date.now();
+
+function timestamp(ms: number): MockTimestamp {
+  const Timestamp = jest.requireMock('@react-native-firebase/firestore').default.Timestamp;
+  return new Timestamp(Math.floor(ms / 1000), (ms % 1000) * 1e6);
+}
+
+// A kalaam document last modified `minutesAgo` minutes ago
+function serverKalaam(id: string, minutesAgo: number, data: Record<string, any> = {}) {
+  return {
+    id,
+    data: { title: `Kalaam ${id}`, ...data, last_modified: timestamp(now - minutesAgo * 60000 - (now % 1000)) },
+  };
+}
+
+// YYYY-MM-DD, `daysAgo` days before today
+function day(daysAgo: number): string {
+  return new Date(now - daysAgo * 86400000).toISOString().split('T')[0];
+}
+
+function cdcEntry(date: string, previousDate: string | null, changes: CdcDocument['changes']): CdcDocument {
+  return {
+    date,
+    previous_date: previousDate,
+    timestamp: `${date}T23:00:00.000Z`,
+    changes,
+    total_changes: changes.length,
+  };
+}
+
+async function rowIds(database: DatabaseModule['default']): Promise<number[]> {
+  const [result] = await database
+    .ensureInitialized()
+    .executeSql('SELECT id FROM kalaam WHERE COALESCE(deleted, 0) = 0 ORDER BY id');
+  return Array.from({ length: result.rows.length }, (_, i) => result.rows.item(i).id);
+}
+
+beforeEach(() => {
+  mockServer.kalaam = [];
+  mockServer.cdc = [];
+  mockServer.failPages = [];
+  mockServer.pagesRead = 0;
+  mockServer.pageSizes = [];
+  mockServer.network = { isConnected: true, type: 'wifi' };
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('CDC sync', () => {
+  test('applies the log, submitted ids included, then direct edits to kalaam', async () => {
+    const { database, syncManager } = await loadSync();
+    await database.applyChanges([{ id: 9, title: 'Old' }], []);
+    mockServer.cdc = [
+      cdcEntry(day(1), null, [
+        { id: 'user_submitted_1760000000123_abc', action: 'INSERT', title: 'Submitted' },
+        { id: 5, action: 'INSERT', title: 'Five' },
+      ]),
+    ];
+    // Edited and tombstoned straight in the collection, outside the log
+    mockServer.kalaam = [serverKalaam('5', 30, { title: 'Five, edited' }), serverKalaam('9', 20, { deleted: true })];
+
+    const result = await syncManager.syncKalaamData('manual');
+
+    expect(result.success).toBe(true);
+    // Kalaam 5 came from both the log and the collection, but counts once
+    expect(result.recordsProcessed).toBe(3);
+    expect(await rowIds(database)).toEqual([5, 1760000000123368]);
+    expect((await database.getKalaamById(5))?.title).toBe('Five, edited');
+    expect(await database.getCdcProgress()).toEqual({ date: day(1), applied: 2 });
+    const watermark = await database.getSyncWatermark();
+    expect(watermark.docId).toBe('9');
+    expect(watermark.seconds).toBe(mockServer.kalaam[1].data.last_modified.seconds);
+  });
+
+  test('pulls the kalaam collection first when a day is missing, then the log', async () => {
+    const { database, syncManager } = await loadSync();
+    const approved = new Date(now - 2 * 86400000).toISOString();
+    mockServer.cdc = [
+      cdcEntry(day(2), null, [{ id: 1, action: 'INSERT', title: 'One', approved_at: approved }]),
+      // Logged after day(1), which never arrived
+      cdcEntry(day(0), day(1), [
+        { id: 2, action: 'INSERT', title: 'Two', approved_at: approved },
+        { id: 3, action: 'DELETE', approved_at: approved },
+      ]),
+    ];
+    mockServer.kalaam = [serverKalaam('1', 10), serverKalaam('3', 5)];
+
+    const result = await syncManager.syncKalaamData('manual');
+
+    // The approved submission only the log holds still arrives; the log's
+    // older state of kalaam 1 and its delete don't overwrite the collection
+    expect(await rowIds(database)).toEqual([1, 2, 3]);
+    expect((await database.getKalaamById(1))?.title).toBe('Kalaam 1');
+    expect(result.recordsProcessed).toBe(3);
+    expect(await database.getCdcProgress()).toEqual({ date: day(0), applied: 2 });
+  });
+
+  test('resumes part way through a day it already started', async () => {
+    const { database, syncManager } = await loadSync();
+    await database.applyChanges([{ id: 1, title: 'One' }], [], { cdc: { date: day(1), applied: 1 } });
+    mockServer.cdc = [
+      cdcEntry(day(1), null, [
+        { id: 1, action: 'DELETE' },
+        { id: 2, action: 'INSERT', title: 'Two' },
+      ]),
+      cdcEntry(day(0), day(1), [{ id: 3, action: 'INSERT', title: 'Three' }]),
+    ];
+
+    const result = await syncManager.syncKalaamData('manual');
+
+    // The delete was applied before; replaying it would drop kalaam 1
+    expect(await rowIds(database)).toEqual([1, 2, 3]);
+    expect(result.recordsProcessed).toBe(2);
+    expect(await database.getCdcProgress()).toEqual({ date: day(0), applied: 1 });
+  });
+});
+
+describe('last_modified sync', () => {
+  test('pages through equal timestamps without losing or repeating documents', async () => {
+    const { database, syncManager } = await loadSync();
+    // Five edits in the same instant, read two per page
+    mockServer.kalaam = ['11', '12', '13', '14', '15'].map(id => serverKalaam(id, 10));
+
+    const result = await syncManager.syncKalaamData('manual');
+
+    expect(result.recordsProcessed).toBe(5);
+    expect(await rowIds(database)).toEqual([11, 12, 13, 14, 15]);
+    // Two full pages, a short one, and nothing more
+    expect(mockServer.pagesRead).toBe(3);
+    expect((await database.getSyncWatermark()).docId).toBe('15');
+  });
+
+  test('a failed page applies none of it, and the next run starts there', async () => {
+    const { database, syncManager } = await loadSync();
+    mockServer.kalaam = ['11', '12', '13', '14', '15'].map(id => serverKalaam(id, 10));
+    mockServer.failPages = [2];
+
+    const failed = await syncManager.syncKalaamData('manual');
+
+    expect(failed.success).toBe(false);
+    expect(await rowIds(database)).toEqual([11, 12]);
+    expect((await database.getSyncWatermark()).docId).toBe('12');
+
+    const retried = await syncManager.syncKalaamData('manual');
+
+    // The tie at the page boundary is split by document id
+    expect(retried.recordsProcessed).toBe(3);
+    expect(await rowIds(database)).toEqual([11, 12, 13, 14, 15]);
+  });
+});
+
+describe('resuming', () => {
+  test('a run cut off between pages resumes from the stored watermark after a restart', async () => {
+    const first = await loadSync();
+    mockServer.kalaam = ['21', '22', '23', '24', '25', '26'].map((id, i) => serverKalaam(id, 60 - i));
+    mockServer.failPages = [3];
+    await first.syncManager.syncKalaamData('manual');
+    expect(await rowIds(first.database)).toEqual([21, 22, 23, 24]);
+
+    // A new process over the same database file
+    const second = await loadSync((first.database.ensureInitialized() as any).db.export());
+    mockServer.pagesRead = 0;
+    mockServer.failPages = [];
+    const watermark = await second.database.getSyncWatermark();
+    expect(watermark.docId).toBe('24');
+
+    const result = await second.syncManager.syncKalaamData('manual');
+
+    expect(result.recordsProcessed).toBe(2);
+    expect(await rowIds(second.database)).toEqual([21, 22, 23, 24, 25, 26]);
+    expect((await second.database.getSyncWatermark()).docId).toBe('26');
+  });
+});
+
+describe('run types', () => {
+  test('background runs wait for the configured interval, quietly', async () => {
+    const { database, syncManager, notifications } = await loadSync();
+    syncManager.setSyncConfig({ backgroundSyncInterval: 60 });
+    mockServer.kalaam = [serverKalaam('31', 10)];
+
+    await syncManager.syncKalaamData('background');
+    expect(await rowIds(database)).toEqual([31]);
+
+    // Woken again well inside the hour
+    mockServer.kalaam.push(serverKalaam('32', 5));
+    await syncManager.syncKalaamData('background');
+    expect(await rowIds(database)).toEqual([31]);
+
+    // Due again, even though a sync already ran today
+    await database.setSetting('last_sync_at', String(Date.now() - 61 * 60 * 1000));
+    await syncManager.syncKalaamData('background');
+    expect(await rowIds(database)).toEqual([31, 32]);
+
+    expect(notifications.showAlreadySyncedTodayNotification).not.toHaveBeenCalled();
+    expect((await database.getDailySyncAttempts()).attempts).toBe(0);
+  });
+
+  test('announces new kalaams whichever run brings them', async () => {
+    const { database, syncManager, notifications } = await loadSync();
+    await database.applyChanges([{ id: 71, title: 'Stored' }], []);
+    mockServer.kalaam = [serverKalaam('71', 10, { title: 'Edited' }), serverKalaam('72', 5)];
+
+    const result = await syncManager.syncKalaamData('background');
+
+    expect(result.newKalaams).toBe(1);
+    // Let a second run through the once-a-day gate
+    await database.setSetting('last_sync_date', '');
+    expect(notifications.showNewKalaamsNotification).toHaveBeenCalledWith(1);
+
+    // Edits alone aren't news
+    mockServer.kalaam = [serverKalaam('71', 1, { title: 'Edited again' })];
+    await syncManager.syncKalaamData('foreground');
+    expect((await database.getKalaamById(71))?.title).toBe('Edited again');
+    expect(notifications.showNewKalaamsNotification).toHaveBeenCalledTimes(1);
+  });
+
+  test('only manual runs are told about, and counted against, the daily limit', async () => {
+    const { database, syncManager, notifications } = await loadSync();
+
+    await syncManager.syncKalaamData('manual');
+    await syncManager.syncKalaamData('foreground');
+    expect(notifications.showAlreadySyncedTodayNotification).not.toHaveBeenCalled();
+
+    await syncManager.syncKalaamData('manual');
+    expect(notifications.showAlreadySyncedTodayNotification).toHaveBeenCalledTimes(1);
+    expect((await database.getDailySyncAttempts()).attempts).toBe(1);
+  });
+});
+
+describe('sync config', () => {
+  test('retries a failed pull with doubling delays, up to maxRetryAttempts', async () => {
+    const { database, syncManager } = await loadSync();
+    syncManager.setSyncConfig({ maxRetryAttempts: 2 });
+    mockServer.kalaam = [serverKalaam('41', 10)];
+    mockServer.failPages = [1];
+    const delays: number[] = [];
+    jest.spyOn(globalThis, 'setTimeout').mockImplementation(((fn: () => void, ms: number) => {
+      delays.push(ms);
+      fn();
+      return 0;
+    }) as any);
+
+    const result = await syncManager.syncKalaamData('manual');
+
+    expect(result.success).toBe(true);
+    expect(delays).toEqual([2000]);
+    expect(await rowIds(database)).toEqual([41]);
+
+    // Every attempt failing gives up after the last retry
+    await database.setSetting('last_sync_date', '');
+    mockServer.pagesRead = 0;
+    mockServer.failPages = [1, 2, 3, 4];
+    delays.length = 0;
+
+    const failed = await syncManager.syncKalaamData('manual');
+
+    expect(failed.success).toBe(false);
+    expect(failed.error).toBe('unavailable');
+    expect(delays).toEqual([2000, 4000]);
+    expect(mockServer.pagesRead).toBe(3);
+  });
+
+  test('waits for Wi-Fi when Wi-Fi only sync is on', async () => {
+    const { database, syncManager } = await loadSync();
+    syncManager.setSyncConfig({ wifiOnlySync: true });
+    mockServer.kalaam = [serverKalaam('51', 10)];
+    mockServer.network = { isConnected: true, type: 'cellular' };
+
+    const skipped = await syncManager.syncKalaamData('manual');
+
+    expect(skipped.success).toBe(false);
+    expect(skipped.error).toMatch(/Wi-Fi/);
+    expect(mockServer.pagesRead).toBe(0);
+
+    mockServer.network = { isConnected: true, type: 'wifi' };
+    await syncManager.syncKalaamData('manual');
+    expect(await rowIds(database)).toEqual([51]);
+  });
+
+  test('reads batchSize documents per page, capped at the Firestore limit', async () => {
+    const { syncManager } = await loadSync();
+    mockServer.kalaam = ['61', '62', '63', '64', '65'].map(id => serverKalaam(id, 10));
+    syncManager.setSyncConfig({ batchSize: 3 });
+
+    await syncManager.syncKalaamData('manual');
+    expect(mockServer.pageSizes).toEqual([3, 3]);
+
+    const { syncManager: large } = await loadSync();
+    large.setSyncConfig({ batchSize: 2000 });
+    mockServer.pageSizes = [];
+    await large.syncKalaamData('manual');
+    expect(mockServer.pageSizes).toEqual([500]);
+  });
+});
@@ -0,0 +1,37 @@
+type Modules = {
+  SQLite: typeof import('react-native-sqlite-storage').default;
+  database: typeof import('../../src/database/Database').default;
+  BackupService: typeof import('../../src/services/BackupService').default;
+  FavoritesService: typeof import('../../src/services/FavoritesService').default;
+  PlaylistService: typeof import('../../src/services/PlaylistService').default;
+  SearchHistoryService: typeof import('../../src/services/SearchHistoryService').default;
+  syncManager: typeof import('../../src/services/SyncManager').syncManager;
+  notificationService: typeof import('../../src/services/NotificationService').notificationService;
+};
+
+const loaders: { [K in keyof Modules]: () => Modules[K] } = {
+  SQLite: () => require('react-native-sqlite-storage').default,
+  database: () => require('../../src/database/Database').default,
+  BackupService: () => require('../../src/services/BackupService').default,
+  FavoritesService: () => require('../../src/services/FavoritesService').default,
+  PlaylistService: () => require('../../src/services/PlaylistService').default,
+  SearchHistoryService: () => require('../../src/services/SearchHistoryService').default,
+  syncManager: () => require('../../src/services/SyncManager').syncManager,
+  notificationService: () => require('../../src/services/NotificationService').notificationService,
+};
+
+/**
+ * Requires the named modules in a fresh module registry, so each test gets
+ * its own Database singleton and SQLite mock, shared by the services loaded
+ * with it. Only the named modules are loaded, so a test need not mock the
+ * dependencies of the others.
+ */
+export function loadIsolated<K extends keyof Modules>(...names: K[]): Pick<Modules, K> {
+  const modules = {} as Pick<Modules, K>;
+  jest.isolateModules(() => {
+    for (const name of names) {
+      modules[name] = loaders[name]();
+    }
+  });
+  return modules;
+}
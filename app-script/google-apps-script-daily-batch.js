@@ -225,6 +225,7 @@ function processApprovedSubmissions(submissions) {
   
   const cdcEntry = {
     date: today,
+    previous_date: previousCdcDate(today),
     timestamp: now,
     changes: [],
     total_changes: submissions.length,
@@ -259,6 +260,7 @@ function processApprovedSubmissions(submissions) {
   
   cdcRef.set(cdcEntry)
     .then(() => {
+      recordCdcDate(today, cdcEntry.previous_date);
       console.log(`CDC entry created for ${today} with ${submissions.length} changes`);
     })
     .catch(error => {
@@ -292,7 +294,34 @@ function clearSheet(submissions) {
  * Generate unique ID for new kalaam
  */
 function generateKalaamId() {
-  return 'user_submitted_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+  // The app stores kalaam ids as integers: milliseconds * 1000 + 0-999 stays
+  // within JavaScript's safe integer range
+  return Date.now() * 1000 + Math.floor(Math.random() * 1000);
+}
+
+/**
+ * Date of the CDC entry logged before today's, or null for the first one.
+ * Each entry carries it as previous_date so the app can tell when a day's
+ * entry never arrived.
+ */
+function previousCdcDate(today) {
+  const properties = PropertiesService.getScriptProperties();
+  const last = properties.getProperty('last_cdc_date');
+  // Rewriting today's entry keeps the link it was first written with
+  return last === today ? properties.getProperty('previous_cdc_date') : last;
+}
+
+/**
+ * Remember today's CDC entry as the latest, once it is written
+ */
+function recordCdcDate(today, previousDate) {
+  const properties = PropertiesService.getScriptProperties();
+  properties.setProperty('last_cdc_date', today);
+  if (previousDate) {
+    properties.setProperty('previous_cdc_date', previousDate);
+  } else {
+    properties.deleteProperty('previous_cdc_date');
+  }
 }
 
 /**
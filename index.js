@@ -3,7 +3,12 @@
  */
 
 import { AppRegistry } from 'react-native';
+import BackgroundFetch from 'react-native-background-fetch';
 import App from './App';
 import { name as appName } from './app.json';
+import { backgroundSyncHeadlessTask } from './src/services/BackgroundSyncManager';
 
 AppRegistry.registerComponent('Pursadari', () => App);
+
+// Android: background sync after the app has been terminated
+BackgroundFetch.registerHeadlessTask(backgroundSyncHeadlessTask);
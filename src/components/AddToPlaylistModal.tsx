@@ -0,0 +1,181 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useThemeTokens } from '../context/SettingsContext';
+import PlaylistService from '../services/PlaylistService';
+import { Playlist } from '../types';
+
+interface AddToPlaylistModalProps {
+  visible: boolean;
+  kalaamId: number;
+  onClose: () => void;
+}
+
+// Tick the playlists a kalaam belongs in, or start a new one with it
+export default function AddToPlaylistModal({ visible, kalaamId, onClose }: AddToPlaylistModalProps) {
+  const t = useThemeTokens();
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [memberOf, setMemberOf] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [all, ids] = await Promise.all([
+        PlaylistService.getPlaylists(),
+        PlaylistService.getPlaylistIdsFor(kalaamId),
+      ]);
+      setPlaylists(all);
+      setMemberOf(new Set(ids));
+    } catch (error) {
+      console.error('Failed to load playlists:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [kalaamId]);
+
+  useEffect(() => {
+    if (visible) {
+      load();
+    }
+  }, [visible, load]);
+
+  const toggle = async (playlistId: number) => {
+    try {
+      if (memberOf.has(playlistId)) {
+        await PlaylistService.removeKalaam(playlistId, kalaamId);
+      } else {
+        await PlaylistService.addKalaam(playlistId, kalaamId);
+      }
+      await load();
+    } catch (error) {
+      console.error('Failed to update playlist:', error);
+    }
+  };
+
+  const create = async () => {
+    if (!newName.trim()) return;
+    try {
+      const playlistId = await PlaylistService.createPlaylist(newName);
+      await PlaylistService.addKalaam(playlistId, kalaamId);
+      setNewName('');
+      await load();
+    } catch (error) {
+      console.error('Failed to create playlist:', error);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.backdrop, { backgroundColor: t.modalBackdrop }]}>
+        <View style={[styles.content, { backgroundColor: t.surface, borderColor: t.border }]}>
+          <View style={[styles.header, { borderBottomColor: t.divider }]}>
+            <Text style={[styles.title, { color: t.textPrimary }]}>Add to Playlist</Text>
+            <TouchableOpacity onPress={onClose}>
+              <MaterialCommunityIcons name="close" size={24} color={t.textMuted} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+            {loading && playlists.length === 0 ? (
+              <ActivityIndicator style={styles.loading} color={t.accent} />
+            ) : playlists.length === 0 ? (
+              <Text style={[styles.empty, { color: t.textMuted }]}>No playlists yet</Text>
+            ) : (
+              playlists.map(p => (
+                <TouchableOpacity
+                  key={p.id}
+                  style={[styles.row, { borderBottomColor: t.divider }]}
+                  onPress={() => toggle(p.id)}
+                >
+                  <MaterialCommunityIcons
+                    name={memberOf.has(p.id) ? 'checkbox-marked' : 'checkbox-blank-outline'}
+                    size={22}
+                    color={memberOf.has(p.id) ? t.accent : t.textMuted}
+                  />
+                  <Text style={[styles.rowText, { color: t.textPrimary }]}>{p.name}</Text>
+                  <Text style={[styles.count, { color: t.textMuted }]}>{p.item_count}</Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </ScrollView>
+
+          <View style={[styles.footer, { borderTopColor: t.divider }]}>
+            <TextInput
+              style={[styles.input, { color: t.textPrimary, borderColor: t.border }]}
+              placeholder="New playlist"
+              placeholderTextColor={t.textMuted}
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={create}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.btn, { backgroundColor: t.accent, opacity: newName.trim() ? 1 : 0.6 }]}
+              onPress={create}
+              disabled={!newName.trim()}
+            >
+              <Text style={[styles.btnText, { color: t.accentOnAccent }]}>Create</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  content: {
+    width: '100%',
+    maxHeight: '75%',
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: { fontSize: 16, fontWeight: '700' },
+  body: { paddingHorizontal: 16, paddingVertical: 8 },
+  loading: { marginVertical: 24 },
+  empty: { fontSize: 14, textAlign: 'center', marginVertical: 16 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowText: { flex: 1, fontSize: 15 },
+  count: { fontSize: 12 },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderTopWidth: 1,
+  },
+  input: { flex: 1, borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 8, fontSize: 14 },
+  btn: { paddingHorizontal: 14, paddingVertical: 10, borderRadius: 10 },
+  btnText: { fontWeight: '700' },
+});
@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { View, StyleSheet, Animated, StyleProp, ViewStyle } from 'react-native';
+import { PanGestureHandler, PanGestureHandlerStateChangeEvent, State } from 'react-native-gesture-handler';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+
+interface DraggableRowProps {
+  // Position among the rows that can be reordered together
+  index: number;
+  count: number;
+  handleColor: string;
+  onMove: (from: number, to: number) => void;
+  // Tells a scrolling parent to hold still while the row is dragged
+  onDragChange?: (dragging: boolean) => void;
+  style?: StyleProp<ViewStyle>;
+  children: React.ReactNode;
+}
+
+/**
+ * A list row that can be dragged by its handle. On release it moves by
+ * however many rows it was dragged past; the row slides back and the caller
+ * re-renders the list in the new order.
+ */
+export default function DraggableRow({
+  index,
+  count,
+  handleColor,
+  onMove,
+  onDragChange,
+  style,
+  children,
+}: DraggableRowProps) {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const rowHeight = useRef(0);
+  const [dragging, setDragging] = useState(false);
+
+  const onHandlerStateChange = ({ nativeEvent }: PanGestureHandlerStateChangeEvent) => {
+    if (nativeEvent.state === State.ACTIVE) {
+      setDragging(true);
+      onDragChange?.(true);
+    } else if (nativeEvent.oldState === State.ACTIVE) {
+      setDragging(false);
+      onDragChange?.(false);
+      translateY.setValue(0);
+      if (nativeEvent.state === State.END && rowHeight.current > 0) {
+        const to = Math.min(
+          count - 1,
+          Math.max(0, index + Math.round(nativeEvent.translationY / rowHeight.current)),
+        );
+        if (to !== index) {
+          onMove(index, to);
+        }
+      }
+    }
+  };
+
+  return (
+    <Animated.View
+      onLayout={e => { rowHeight.current = e.nativeEvent.layout.height; }}
+      style={[style, dragging && styles.dragging, { transform: [{ translateY }] }]}
+    >
+      <PanGestureHandler
+        onGestureEvent={Animated.event([{ nativeEvent: { translationY: translateY } }], { useNativeDriver: false })}
+        onHandlerStateChange={onHandlerStateChange}
+      >
+        <View style={styles.handle}>
+          <MaterialCommunityIcons name="drag-vertical" size={20} color={handleColor} />
+        </View>
+      </PanGestureHandler>
+      {children}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    paddingRight: 8,
+    paddingVertical: 4,
+  },
+  dragging: {
+    zIndex: 1,
+    elevation: 4,
+    opacity: 0.9,
+  },
+});
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useThemeTokens } from '../context/SettingsContext';
+
+interface NamePromptModalProps {
+  visible: boolean;
+  title: string;
+  initialName?: string;
+  placeholder?: string;
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}
+
+// Ask for a name, e.g. for a saved search; Alert.prompt is iOS-only
+export default function NamePromptModal({
+  visible,
+  title,
+  initialName = '',
+  placeholder,
+  onSubmit,
+  onClose,
+}: NamePromptModalProps) {
+  const t = useThemeTokens();
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (visible) {
+      setName(initialName);
+    }
+  }, [visible, initialName]);
+
+  const submit = () => {
+    if (!name.trim()) return;
+    onSubmit(name.trim());
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.backdrop, { backgroundColor: t.modalBackdrop }]}>
+        <View style={[styles.content, { backgroundColor: t.surface, borderColor: t.border }]}>
+          <View style={[styles.header, { borderBottomColor: t.divider }]}>
+            <Text style={[styles.title, { color: t.textPrimary }]}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <MaterialCommunityIcons name="close" size={24} color={t.textMuted} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.footer}>
+            <TextInput
+              style={[styles.input, { color: t.textPrimary, borderColor: t.border }]}
+              placeholder={placeholder}
+              placeholderTextColor={t.textMuted}
+              value={name}
+              onChangeText={setName}
+              onSubmitEditing={submit}
+              autoFocus
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.btn, { backgroundColor: t.accent, opacity: name.trim() ? 1 : 0.6 }]}
+              onPress={submit}
+              disabled={!name.trim()}
+            >
+              <Text style={[styles.btnText, { color: t.accentOnAccent }]}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  content: {
+    width: '100%',
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: { fontSize: 16, fontWeight: '700' },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+  },
+  input: { flex: 1, borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 8, fontSize: 14 },
+  btn: { paddingHorizontal: 14, paddingVertical: 10, borderRadius: 10 },
+  btnText: { fontWeight: '700' },
+});
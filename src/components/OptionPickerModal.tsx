@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, Modal, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useThemeTokens } from '../context/SettingsContext';
+
+export interface PickerOption<T> {
+  label: string;
+  value: T;
+}
+
+interface OptionPickerModalProps<T> {
+  visible: boolean;
+  title: string;
+  options: PickerOption<T>[];
+  selected?: T;
+  emptyText?: string;
+  onSelect: (value: T) => void;
+  onClose: () => void;
+}
+
+// Pick one value from a list; closes on selection
+export default function OptionPickerModal<T>({
+  visible,
+  title,
+  options,
+  selected,
+  emptyText = 'Nothing to choose from',
+  onSelect,
+  onClose,
+}: OptionPickerModalProps<T>) {
+  const t = useThemeTokens();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.backdrop, { backgroundColor: t.modalBackdrop }]}>
+        <View style={[styles.content, { backgroundColor: t.surface, borderColor: t.border }]}>
+          <View style={[styles.header, { borderBottomColor: t.divider }]}>
+            <Text style={[styles.title, { color: t.textPrimary }]}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <MaterialCommunityIcons name="close" size={24} color={t.textMuted} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView contentContainerStyle={styles.body}>
+            {options.length === 0 ? (
+              <Text style={[styles.empty, { color: t.textMuted }]}>{emptyText}</Text>
+            ) : (
+              options.map(option => (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.row, { borderBottomColor: t.divider }]}
+                  onPress={() => {
+                    onSelect(option.value);
+                    onClose();
+                  }}
+                >
+                  <Text style={[styles.rowText, { color: t.textPrimary }]}>{option.label}</Text>
+                  {option.value === selected && (
+                    <MaterialCommunityIcons name="check" size={20} color={t.accent} />
+                  )}
+                </TouchableOpacity>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  content: {
+    width: '100%',
+    maxHeight: '75%',
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: { fontSize: 16, fontWeight: '700' },
+  body: { paddingHorizontal: 16, paddingVertical: 8 },
+  empty: { fontSize: 14, textAlign: 'center', marginVertical: 16 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowText: { flex: 1, fontSize: 15 },
+});
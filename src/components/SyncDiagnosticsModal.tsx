@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useThemeTokens } from '../context/SettingsContext';
+import { syncManager } from '../services/SyncManager';
+import { SyncDiagnostics } from '../types';
+import { formatSyncDiagnostics } from '../utils/SyncDiagnostics';
+
+interface SyncDiagnosticsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function SyncDiagnosticsModal({ visible, onClose }: SyncDiagnosticsModalProps) {
+  const t = useThemeTokens();
+  const [diagnostics, setDiagnostics] = useState<SyncDiagnostics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setDiagnostics(await syncManager.getDiagnostics());
+    } catch (loadError) {
+      console.error('Failed to load sync diagnostics:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Fresh numbers every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      load();
+    }
+  }, [visible, load]);
+
+  const handleExport = async () => {
+    if (!diagnostics) return;
+    try {
+      await Share.share({ message: formatSyncDiagnostics(diagnostics) });
+    } catch (shareError) {
+      console.error('Failed to export sync diagnostics:', shareError);
+    }
+  };
+
+  const renderRow = (label: string, value: string) => (
+    <View style={styles.row} key={label}>
+      <Text style={[styles.label, { color: t.textSecondary }]}>{label}</Text>
+      <Text style={[styles.value, { color: t.textMuted }]}>{value}</Text>
+    </View>
+  );
+
+  const renderBody = () => {
+    if (loading && !diagnostics) {
+      return <ActivityIndicator style={styles.loading} color={t.accent} />;
+    }
+    if (error || !diagnostics) {
+      return (
+        <Text style={[styles.errorText, { color: t.danger }]}>
+          Failed to load diagnostics{error ? `: ${error}` : ''}
+        </Text>
+      );
+    }
+
+    const { watermark, cdcProgress, pendingCdcDays, network, events } = diagnostics;
+    return (
+      <>
+        {renderRow('Watermark', new Date(watermark.seconds * 1000).toLocaleString())}
+        {renderRow(
+          'CDC progress',
+          cdcProgress ? `${cdcProgress.date} (${cdcProgress.applied} applied)` : 'None',
+        )}
+        {renderRow(
+          'Pending CDC days',
+          pendingCdcDays === null
+            ? 'Unknown'
+            : pendingCdcDays.length === 0
+              ? 'None'
+              : pendingCdcDays.join(', '),
+        )}
+        {renderRow('Network', `${network.isConnected ? 'Online' : 'Offline'} (${network.type})`)}
+        {renderRow('Local records', String(diagnostics.recordCount))}
+        {renderRow('Last sync date', diagnostics.lastSyncDate ?? 'Never')}
+
+        <Text style={[styles.sectionTitle, { color: t.textPrimary }]}>Recent Syncs</Text>
+        {events.length === 0 ? (
+          <Text style={[styles.value, { color: t.textMuted }]}>No syncs recorded yet</Text>
+        ) : (
+          events.map((event, index) => (
+            <View
+              key={`${event.timestamp}-${index}`}
+              style={[styles.event, { borderBottomColor: t.divider }]}
+            >
+              <View style={styles.eventHeader}>
+                <MaterialCommunityIcons
+                  name={event.success ? 'check-circle' : 'alert-circle'}
+                  size={16}
+                  color={event.success ? t.accent : t.danger}
+                />
+                <Text style={[styles.eventTitle, { color: t.textPrimary }]}>
+                  {event.type} · {new Date(event.timestamp).toLocaleString()}
+                </Text>
+              </View>
+              <Text style={[styles.eventDetail, { color: t.textMuted }]}>
+                {event.recordsProcessed} records ({event.activeRecords} new, {event.deletedRecords} deleted) in {event.duration}ms
+              </Text>
+              {event.error && (
+                <Text style={[styles.eventDetail, { color: t.danger }]}>{event.error}</Text>
+              )}
+            </View>
+          ))
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.backdrop, { backgroundColor: t.modalBackdrop }]}>
+        <View style={[styles.content, { backgroundColor: t.surface, borderColor: t.border }]}>
+          <View style={[styles.header, { borderBottomColor: t.divider }]}>
+            <Text style={[styles.title, { color: t.textPrimary }]}>Sync Diagnostics</Text>
+            <TouchableOpacity onPress={onClose}>
+              <MaterialCommunityIcons name="close" size={24} color={t.textMuted} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.body}>{renderBody()}</ScrollView>
+
+          <View style={[styles.footer, { borderTopColor: t.divider }]}>
+            <TouchableOpacity style={styles.btn} onPress={load} disabled={loading}>
+              <Text style={[styles.btnText, { color: t.textSecondary }]}>Refresh</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.btn, { backgroundColor: t.accent, opacity: diagnostics ? 1 : 0.6 }]}
+              onPress={handleExport}
+              disabled={!diagnostics}
+            >
+              <Text style={[styles.btnText, { color: t.accentOnAccent }]}>Export</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  content: {
+    width: '100%',
+    maxHeight: '85%',
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: { fontSize: 16, fontWeight: '700' },
+  body: { padding: 16 },
+  loading: { marginVertical: 24 },
+  errorText: { fontSize: 14 },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: { fontSize: 14, fontWeight: '500' },
+  value: { fontSize: 12, textAlign: 'right', flex: 1, marginLeft: 16 },
+  sectionTitle: { fontSize: 15, fontWeight: '700', marginTop: 12, marginBottom: 8 },
+  event: { paddingVertical: 8, borderBottomWidth: 1 },
+  eventHeader: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  eventTitle: { fontSize: 13, fontWeight: '600', textTransform: 'capitalize' },
+  eventDetail: { fontSize: 12, marginTop: 2 },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    padding: 12,
+    borderTopWidth: 1,
+  },
+  btn: { paddingHorizontal: 14, paddingVertical: 10, borderRadius: 10 },
+  btnText: { fontWeight: '700' },
+});
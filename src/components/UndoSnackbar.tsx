@@ -0,0 +1,53 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useThemeTokens } from '../context/SettingsContext';
+
+// How long the snackbar stays up before the change is final
+const UNDO_TIMEOUT_MS = 6000;
+
+interface UndoSnackbarProps {
+  // Nothing is shown while null
+  message: string | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export default function UndoSnackbar({ message, onUndo, onDismiss }: UndoSnackbarProps) {
+  const t = useThemeTokens();
+
+  // A new message restarts the timer
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(onDismiss, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  if (!message) return null;
+
+  return (
+    <View style={[styles.snackbar, { backgroundColor: t.textPrimary }]}>
+      <Text style={[styles.message, { color: t.surface }]} numberOfLines={2}>{message}</Text>
+      <TouchableOpacity onPress={onUndo} style={styles.action}>
+        <Text style={[styles.actionText, { color: t.accent }]}>UNDO</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  snackbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingLeft: 16,
+    paddingVertical: 6,
+    elevation: 6,
+  },
+  message: { flex: 1, fontSize: 14 },
+  action: { paddingHorizontal: 16, paddingVertical: 10 },
+  actionText: { fontWeight: '700' },
+});
@@ -1,7 +1,8 @@
-import React, { createContext, useContext, useMemo, useState, useEffect } from 'react';
+import React, { createContext, useContext, useMemo, useState, useEffect, useCallback } from 'react';
 import database, { Settings } from '../database/Database';
 import FontManager from '../utils/FontManager';
 import { SyncConfig } from '../types';
+import { syncManager } from '../services/SyncManager';
 
 
 type Theme = 'light' | 'dark';
@@ -29,6 +30,8 @@ type SettingsValue = {
   setSyncConfig: (config: Partial<SyncConfig>) => void;
   lastSyncTimestamp: number;
   isOnline: boolean;
+  // Re-read everything from the settings table, e.g. after a backup restore
+  reloadSettings: () => Promise<void>;
 };
 
 const SettingsContext = createContext<SettingsValue>({
@@ -59,6 +62,7 @@ const SettingsContext = createContext<SettingsValue>({
   setSyncConfig: () => {},
   lastSyncTimestamp: 0,
   isOnline: false,
+  reloadSettings: async () => {},
 });
 
 export function SettingsProvider({ children }: { children: React.ReactNode }) {
@@ -80,43 +84,44 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
   const [lastSyncTimestamp, setLastSyncTimestamp] = useState<number>(0);
   const [isOnline, setIsOnline] = useState<boolean>(false);
 
-  useEffect(() => {
-    const loadSettings = async () => {
-      await database.init();
-      await FontManager.initialize(); // Initialize font manager first
-      const settings = await database.getAllSettings();
-      
-      if (settings.theme) setTheme(settings.theme as Theme);
-      if (settings.accent_color) setAccentColor(settings.accent_color);
-      
-      // Use safe font handling
-      const safeEngFont = FontManager.getSafeFontFamily(settings.eng_font || 'System', false);
-      const safeUrduFont = FontManager.getSafeFontFamily(settings.urdu_font || 'System', true);
-      setEngFont(safeEngFont);
-      setUrduFont(safeUrduFont);
-      
-      if (settings.eng_font_size) setEngFontScale(parseFloat(settings.eng_font_size));
-      if (settings.urdu_font_size) setUrduFontScale(parseFloat(settings.urdu_font_size));
-      if (settings.default_language) setDefaultLanguage(settings.default_language as 'urdu' | 'english');
-      
-      // Load sync settings
-      if (settings.last_source_sync_timestamp) {
-        setLastSyncTimestamp(parseInt(settings.last_source_sync_timestamp));
-      }
-      
-      // Load sync config
-      if (settings.sync_config) {
-        try {
-          const config = JSON.parse(settings.sync_config);
-          setSyncConfig({ ...syncConfig, ...config });
-        } catch (error) {
-          console.error('Failed to parse sync config:', error);
-        }
+  const loadSettings = useCallback(async () => {
+    await database.init();
+    await FontManager.initialize(); // Initialize font manager first
+    const settings = await database.getAllSettings();
+    
+    if (settings.theme) setTheme(settings.theme as Theme);
+    if (settings.accent_color) setAccentColor(settings.accent_color);
+    
+    // Use safe font handling
+    const safeEngFont = FontManager.getSafeFontFamily(settings.eng_font || 'System', false);
+    const safeUrduFont = FontManager.getSafeFontFamily(settings.urdu_font || 'System', true);
+    setEngFont(safeEngFont);
+    setUrduFont(safeUrduFont);
+    
+    if (settings.eng_font_size) setEngFontScale(parseFloat(settings.eng_font_size));
+    if (settings.urdu_font_size) setUrduFontScale(parseFloat(settings.urdu_font_size));
+    if (settings.default_language) setDefaultLanguage(settings.default_language as 'urdu' | 'english');
+    
+    // Load sync settings
+    if (settings.last_source_sync_timestamp) {
+      setLastSyncTimestamp(parseInt(settings.last_source_sync_timestamp));
+    }
+    
+    // Load sync config
+    if (settings.sync_config) {
+      try {
+        const config = JSON.parse(settings.sync_config);
+        setSyncConfig(prev => ({ ...prev, ...config }));
+      } catch (error) {
+        console.error('Failed to parse sync config:', error);
       }
-    };
-    loadSettings();
+    }
   }, []);
 
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
   const updateSetting = async (key: string, value: string) => {
     await database.setSetting(key, value);
   };
@@ -164,11 +169,13 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     setSyncConfig: (config: Partial<SyncConfig>) => {
       const newConfig = { ...syncConfig, ...config };
       setSyncConfig(newConfig);
+      syncManager.setSyncConfig(newConfig);
       updateSetting('sync_config', JSON.stringify(newConfig));
     },
     lastSyncTimestamp,
-    isOnline
-  }), [theme, accentColor, engFont, urduFont, engFontScale, urduFontScale, fontScale, defaultLanguage, syncConfig, lastSyncTimestamp, isOnline]);
+    isOnline,
+    reloadSettings: loadSettings
+  }), [theme, accentColor, engFont, urduFont, engFontScale, urduFontScale, fontScale, defaultLanguage, syncConfig, lastSyncTimestamp, isOnline, loadSettings]);
   return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
 }
 
@@ -1,25 +1,3 @@
-/**
- * HARDCODED SYNC TIMESTAMP CONFIGURATION
- * ======================================
- * 
- * The initial sync timestamp is currently hardcoded to October 8th, 2024, 12:01 PM (UTC)
- * This is set in two methods:
- * 1. setInitialSyncTimestamp() - line ~480
- * 2. resetSyncTimestampForNewInstall() - line ~508
- * 
- * TO CHANGE BACK TO USUAL BUNDLING TIME:
- * =====================================
- * Replace the hardcoded date with current time:
- * 
- * OLD (hardcoded):
- * const hardcodedTime = new Date('2024-10-08T12:01:00Z').getTime();
- * 
- * NEW (bundling time):
- * const currentTime = Date.now();
- * 
- * Then use 'currentTime' instead of 'hardcodedTime' in both methods.
- */
-
 import SQLite, { SQLiteDatabase } from 'react-native-sqlite-storage';
 import {
   Kalaam,
@@ -27,7 +5,36 @@ import {
   PoetGroup,
   ReciterGroup,
   KalaamListResponse,
+  RecentKalaam,
+  SyncWatermark,
+  SyncProgress,
+  SyncEvent,
+  CdcProgress,
+  SearchFilters,
+  SearchFacets,
+  SearchResult,
+  SearchResponse,
+  SearchSuggestion,
+  SuggestionKind,
 } from '../types';
+import {
+  FtsModule,
+  MatchSyntax,
+  SEARCH_INDEX_TABLE,
+  SEARCH_INDEX_VERSION,
+  SEARCH_SOURCE_COLUMNS,
+  TITLE_COLUMNS,
+  createSearchIndexSql,
+  searchIndexUpsertStatements,
+  queryTermGroups,
+  buildMatchExpression,
+  matchSyntax,
+  rankExpression,
+} from './SearchIndex';
+import { bestMatchingLine } from './SearchSnippet';
+import { KalaamRow, KALAAM_COLUMNS } from './KalaamMapper';
+import { runMigrations } from './Migrations';
+import { visibleWhere } from './Visibility';
 
 export interface Settings {
   theme: 'light' | 'dark';
@@ -38,17 +45,66 @@ export interface Settings {
   eng_font: string;
   default_language: 'urdu' | 'english';
   last_source_sync_timestamp?: string;
+  last_source_sync_cursor?: string; // JSON SyncWatermark
+  cdc_progress?: string; // JSON CdcProgress
   sync_config?: string;
   daily_sync_attempts?: string; // JSON string of sync attempts per day
   last_sync_date?: string; // YYYY-MM-DD format
+  last_sync_at?: string; // ms of the last completed sync, for the background interval
+  search_index_version?: string;
+}
+
+// Build metadata stamped into the bundled database
+export interface BundleMeta {
+  builtAt: string; // ISO timestamp of the data export
+  recordCount: number;
 }
 
 SQLite.enablePromise(true);
 
+// Sync runs kept in the sync_events table
+const SYNC_EVENTS_KEPT = 200;
+
+// Synced kalaams kept in the recent_changes feed
+const RECENT_CHANGES_KEPT = 100;
+
+// WHERE conditions (on alias k) narrowing a search to its filters
+function filterConditions(filters: SearchFilters): { conditions: string[]; params: any[] } {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  for (const column of ['reciter', 'poet', 'masaib'] as const) {
+    if (filters[column]) {
+      conditions.push(`k.${column} = ?`);
+      params.push(filters[column]);
+    }
+  }
+  if (filters.hasEnglish) {
+    conditions.push("COALESCE(TRIM(k.lyrics_eng), '') != ''");
+  }
+  if (filters.hasUrdu) {
+    conditions.push("COALESCE(TRIM(k.lyrics_urdu), '') != ''");
+  }
+  if (filters.hasVideo) {
+    conditions.push("COALESCE(TRIM(k.yt_link), '') != ''");
+  }
+  return { conditions, params };
+}
+
+function watermarkMillis(watermark: SyncWatermark): number {
+  return watermark.seconds * 1000 + Math.floor(watermark.nanoseconds / 1e6);
+}
+
+// A reciter, poet or masaib value, how many kalaams have it, and one of them
+type NameGroup = { value: string; count: number; kalaamId: number };
+
 class Database {
   private static instance: Database | null = null;
   private db: SQLiteDatabase | null = null;
   private initPromise: Promise<void> | null = null;
+  private ftsModule: FtsModule | null = null; // null when no FTS module is available
+  private ftsSyntax: MatchSyntax = 'fts5';
+  // Reciter, poet and masaib groups for suggestions; cleared by applyChanges
+  private nameGroups: Promise<NameGroup[][]> | null = null;
 
   private constructor() {}
 
@@ -78,23 +134,8 @@ class Database {
         });
         console.log('[Database] Database opened successfully');
 
-        // Create settings table if it doesn't exist
-        await this.db.executeSql(`
-          CREATE TABLE IF NOT EXISTS settings (
-            key TEXT PRIMARY KEY,
-            value TEXT NOT NULL,
-            updated_at DATETIME
-          )
-        `);
-
-        // Create favourites table if it doesn't exist (with pin column)
-        await this.db.executeSql(`
-          CREATE TABLE IF NOT EXISTS favourites (
-            kalaam_id INTEGER PRIMARY KEY,
-            created_at DATETIME,
-            pinned BOOLEAN DEFAULT FALSE
-          )
-        `);
+        // Bring the schema up to date
+        await runMigrations(this.db);
 
         // Check if this is first launch (favourites table is empty)
         const [favouritesCheck] = await this.db.executeSql('SELECT COUNT(*) as count FROM favourites');
@@ -112,33 +153,11 @@ class Database {
 
         // Special content (Hadees e Kisa, Ziyarat Ashura) already exists in kalaam table
 
-        // Update kalaam table to include new fields if they don't exist
-        await this.db.executeSql(`
-          ALTER TABLE kalaam ADD COLUMN last_modified TIMESTAMP
-        `).catch(() => {
-          // Column might already exist, ignore error
-        });
+        // Full-text search index over title and lyrics
+        await this.ensureSearchIndex();
 
-        await this.db.executeSql(`
-          ALTER TABLE kalaam ADD COLUMN deleted BOOLEAN DEFAULT FALSE
-        `).catch(() => {
-          // Column might already exist, ignore error
-        });
-
-        // Create indexes for performance
-        await this.db.executeSql(`
-          CREATE INDEX IF NOT EXISTS idx_kalaam_deleted ON kalaam(deleted)
-        `);
-
-        await this.db.executeSql(`
-          CREATE INDEX IF NOT EXISTS idx_kalaam_last_modified ON kalaam(last_modified)
-        `);
-
-        // Set initial sync timestamp to current bundling time
-        await this.setInitialSyncTimestamp();
-        
-        // For new installs, always reset to current bundling time
-        await this.resetSyncTimestampForNewInstall();
+        // On first open, start syncing from when the bundled data was built
+        await this.ensureSyncBaseline();
 
         // Insert default settings if they don't exist
         const defaultSettings = {
@@ -169,7 +188,85 @@ class Database {
     return this.initPromise;
   }
 
-  private ensureInitialized(): SQLite.SQLiteDatabase {
+  // Build the FTS index if it is missing or was built by an older version
+  private async ensureSearchIndex(): Promise<void> {
+    const db = this.ensureInitialized();
+
+    const [existing] = await db.executeSql(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?",
+      [SEARCH_INDEX_TABLE],
+    );
+    const storedVersion = await this.getSetting('search_index_version');
+
+    if (existing.rows.length > 0 && storedVersion === SEARCH_INDEX_VERSION.toString()) {
+      const sql: string = existing.rows.item(0).sql || '';
+      this.ftsModule = sql.toLowerCase().includes('fts5') ? 'fts5' : 'fts4';
+      this.ftsSyntax = await this.detectMatchSyntax(this.ftsModule);
+      console.log('[Database] Search index up to date, using', this.ftsModule);
+      return;
+    }
+
+    try {
+      await this.rebuildSearchIndex();
+    } catch (error) {
+      // Search falls back to LIKE scans rather than breaking app start
+      console.error('[Database] Failed to build search index:', error);
+      this.ftsModule = null;
+    }
+  }
+
+  private async rebuildSearchIndex(): Promise<void> {
+    const db = this.ensureInitialized();
+    console.log('[Database] Building search index...');
+
+    await db.executeSql(`DROP TABLE IF EXISTS ${SEARCH_INDEX_TABLE}`);
+
+    // Prefer FTS5; Android's bundled SQLite only ships FTS3/FTS4
+    this.ftsModule = null;
+    for (const module of ['fts5', 'fts4'] as FtsModule[]) {
+      try {
+        await db.executeSql(createSearchIndexSql(module));
+        this.ftsModule = module;
+        break;
+      } catch (error) {
+        console.log(`[Database] ${module} not available:`, error);
+      }
+    }
+    if (!this.ftsModule) {
+      throw new Error('No full-text search module available');
+    }
+    this.ftsSyntax = await this.detectMatchSyntax(this.ftsModule);
+
+    const [result] = await db.executeSql(
+      `SELECT id, ${SEARCH_SOURCE_COLUMNS.join(', ')} FROM kalaam ${visibleWhere('search')}`,
+    );
+    const statements: Array<[string, any[]]> = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      // A fresh table has nothing to delete, so only the INSERT is needed
+      statements.push(searchIndexUpsertStatements(result.rows.item(i))[1]);
+    }
+    statements.push([
+      'INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)',
+      ['search_index_version', SEARCH_INDEX_VERSION.toString(), new Date().toISOString()],
+    ]);
+    await db.sqlBatch(statements);
+
+    console.log(`[Database] Search index built with ${this.ftsModule} for ${result.rows.length} kalaams`);
+  }
+
+  // Whether FTS4 queries can use brackets depends on how SQLite was built
+  private async detectMatchSyntax(module: FtsModule): Promise<MatchSyntax> {
+    const db = this.ensureInitialized();
+    const [result] = await db.executeSql('PRAGMA compile_options');
+    const options: string[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      options.push(result.rows.item(i).compile_options);
+    }
+    return matchSyntax(module, options);
+  }
+
+  // Also used by FavoritesService, which runs its own favourites queries
+  ensureInitialized(): SQLite.SQLiteDatabase {
     if (!this.db) {
       throw new Error('Database not initialized. Call init() first.');
     }
@@ -211,67 +308,234 @@ class Database {
     query: string,
     page: number = 1,
     limit: number = 50,
-  ): Promise<KalaamListResponse> {
+    filters: SearchFilters = {},
+  ): Promise<SearchResponse> {
     const db = this.ensureInitialized();
     const offset = (page - 1) * limit;
-    const searchQuery = `%${query}%`;
+    const source = this.searchSource(query, filters);
+    if (!source) {
+      return { kalaams: [], total: 0, page, limit };
+    }
 
-    // Get total count for all matches
     const [countResult] = await db.executeSql(
-      'SELECT COUNT(*) as total FROM kalaam WHERE title LIKE ? OR lyrics_eng LIKE ? OR lyrics_urdu LIKE ?',
-      [searchQuery, searchQuery, searchQuery],
+      `SELECT COUNT(*) as total FROM ${source.from} ${source.where}`,
+      source.params,
     );
 
     const total = countResult.rows.item(0).total;
 
-    // Priority-based search: title matches first, then lyrics matches
     const [result] = await db.executeSql(`
-      SELECT * FROM kalaam 
-      WHERE title LIKE ? OR lyrics_eng LIKE ? OR lyrics_urdu LIKE ? 
-      ORDER BY 
-        CASE 
-          WHEN title LIKE ? THEN 1 
-          WHEN lyrics_eng LIKE ? OR lyrics_urdu LIKE ? THEN 2 
-          ELSE 3 
-        END,
-        title
+      SELECT k.* FROM ${source.from} ${source.where}
+      ORDER BY ${source.orderBy}
       LIMIT ? OFFSET ?
-    `, [searchQuery, searchQuery, searchQuery, searchQuery, searchQuery, searchQuery, limit, offset]);
+    `, [...source.params, ...source.orderParams, limit, offset]);
 
-    const kalaams: Kalaam[] = [];
+    // Each hit carries the lyric line that explains it
+    const groups = queryTermGroups(query);
+    const kalaams: SearchResult[] = [];
     for (let i = 0; i < result.rows.length; i++) {
-      kalaams.push(result.rows.item(i));
+      const kalaam: Kalaam = result.rows.item(i);
+      kalaams.push({ ...kalaam, snippet: bestMatchingLine(kalaam, groups) });
     }
 
     return { kalaams, total, page, limit };
   }
 
-  async getKalaamsByMasaib(
-    masaib: string,
-    page: number = 1,
-    limit: number = 50,
-  ): Promise<KalaamListResponse> {
-    const db = this.ensureInitialized();
-    const offset = (page - 1) * limit;
+  /**
+   * How many results of a search each reciter, poet and masaib has. A
+   * facet's counts ignore its own filter, so the other values stay
+   * reachable once one is picked.
+   */
+  async getSearchFacets(query: string, filters: SearchFilters = {}): Promise<SearchFacets> {
+    const facet = async (column: 'reciter' | 'poet' | 'masaib') => {
+      const source = this.searchSource(query, { ...filters, [column]: undefined });
+      if (!source) {
+        return [];
+      }
+      const db = this.ensureInitialized();
+      const [result] = await db.executeSql(
+        `SELECT k.${column} as value, COUNT(*) as count FROM ${source.from}
+         ${source.where} AND k.${column} IS NOT NULL
+         GROUP BY k.${column} ORDER BY count DESC, k.${column} ASC`,
+        source.params,
+      );
+      const groups: Array<{ value: string; count: number }> = [];
+      for (let i = 0; i < result.rows.length; i++) {
+        groups.push(result.rows.item(i));
+      }
+      return groups;
+    };
 
-    const [countResult] = await db.executeSql(
-      'SELECT COUNT(*) as total FROM kalaam WHERE masaib = ?',
-      [masaib],
-    );
+    const [reciters, poets, masaib] = await Promise.all([
+      facet('reciter'),
+      facet('poet'),
+      facet('masaib'),
+    ]);
+    return {
+      reciters: reciters.map(({ value, count }) => ({ reciter: value, count })),
+      poets: poets.map(({ value, count }) => ({ poet: value, count })),
+      masaib: masaib.map(({ value, count }) => ({ masaib: value, count })),
+    };
+  }
 
-    const total = countResult.rows.item(0).total;
+  /**
+   * Type-ahead suggestions while a query is typed: reciters, poets, masaib
+   * and titles with a word starting with the prefix, each with its kalaam
+   * count. Names that start with the prefix come before mid-name matches,
+   * then larger groups. Up to perKind of each, in that kind order.
+   *
+   * Names come from the grouped browse counts, kept in memory until the
+   * catalogue changes, so counts match the lists the suggestions open.
+   * Titles are a prefix MATCH on the index (a title LIKE prefix without it).
+   */
+  async getSuggestions(prefix: string, perKind: number = 3): Promise<SearchSuggestion[]> {
+    const text = prefix.trim();
+    if (!text) {
+      return [];
+    }
+    const lower = text.toLowerCase();
+
+    this.nameGroups ??= Promise.all([
+      this.groupCounts('reciter'),
+      this.groupCounts('poet'),
+      this.groupCounts('masaib'),
+    ]);
+    const groups = await this.nameGroups;
+
+    const names = (['reciter', 'poet', 'masaib'] as SuggestionKind[]).flatMap((kind, i) => {
+      const matching = groups[i].filter(({ value }) => {
+        const name = value.toLowerCase();
+        return name.startsWith(lower) || name.includes(` ${lower}`);
+      });
+      // Stable, so each half keeps the largest groups first
+      return [
+        ...matching.filter(({ value }) => value.toLowerCase().startsWith(lower)),
+        ...matching.filter(({ value }) => !value.toLowerCase().startsWith(lower)),
+      ]
+        .slice(0, perKind)
+        .map(group => ({ kind, ...group }));
+    });
+
+    return [...names, ...(await this.titleSuggestions(text, perKind))];
+  }
+
+  private async titleSuggestions(text: string, limit: number): Promise<SearchSuggestion[]> {
+    const db = this.ensureInitialized();
+    const starts = `${text.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+    let from = 'kalaam k';
+    let condition = "k.title LIKE ? ESCAPE '\\'";
+    let param = starts;
+    if (this.ftsModule) {
+      // Each word as typed; phonetic keys would suggest titles not starting with it
+      const terms = queryTermGroups(text).map(([term]) => [term]);
+      const match = buildMatchExpression(terms, this.ftsSyntax, ['title']);
+      if (!match) {
+        return [];
+      }
+      from = `${SEARCH_INDEX_TABLE} JOIN kalaam k ON k.id = ${SEARCH_INDEX_TABLE}.rowid`;
+      condition = `${SEARCH_INDEX_TABLE} MATCH ?`;
+      param = match;
+    }
 
     const [result] = await db.executeSql(
-      'SELECT * FROM kalaam WHERE masaib = ? ORDER BY title LIMIT ? OFFSET ?',
-      [masaib, limit, offset],
+      `SELECT k.title as value, COUNT(*) as count, MIN(k.id) as kalaamId FROM ${from}
+       ${visibleWhere('search', [condition], 'k')}
+       GROUP BY k.title
+       ORDER BY k.title LIKE ? ESCAPE '\\' DESC, count DESC, k.title ASC
+       LIMIT ?`,
+      [param, starts, limit],
     );
-
-    const kalaams: Kalaam[] = [];
+    const suggestions: SearchSuggestion[] = [];
     for (let i = 0; i < result.rows.length; i++) {
-      kalaams.push(result.rows.item(i));
+      suggestions.push({ kind: 'title', ...result.rows.item(i) });
     }
+    return suggestions;
+  }
 
-    return { kalaams, total, page, limit };
+  /**
+   * FROM, WHERE and ORDER BY for the kalaams matching a query and filters,
+   * with `k` as the kalaam alias. Null when nothing can match: an empty
+   * query with no filters, or a query with no searchable terms.
+   *
+   * With the FTS index, title hits come first, then by relevance within
+   * each tier; without it, a LIKE scan ranks title matches above lyrics.
+   * Filters alone list by title.
+   */
+  private searchSource(
+    query: string,
+    filters: SearchFilters,
+  ): {
+    from: string;
+    where: string;
+    params: any[];
+    orderBy: string;
+    orderParams: any[];
+  } | null {
+    const { conditions, params } = filterConditions(filters);
+    const text = query.trim();
+
+    if (!text) {
+      if (conditions.length === 0) {
+        return null;
+      }
+      return {
+        from: 'kalaam k',
+        where: visibleWhere('search', conditions, 'k'),
+        params,
+        orderBy: 'k.title',
+        orderParams: [],
+      };
+    }
+
+    if (!this.ftsModule) {
+      // Fallback for devices without any FTS module
+      const like = `%${text}%`;
+      return {
+        from: 'kalaam k',
+        where: visibleWhere(
+          'search',
+          ['k.title LIKE ? OR k.lyrics_eng LIKE ? OR k.lyrics_urdu LIKE ?', ...conditions],
+          'k',
+        ),
+        params: [like, like, like, ...params],
+        orderBy: `
+          CASE
+            WHEN k.title LIKE ? THEN 1
+            WHEN k.lyrics_eng LIKE ? OR k.lyrics_urdu LIKE ? THEN 2
+            ELSE 3
+          END,
+          k.title`,
+        orderParams: [like, like, like],
+      };
+    }
+
+    const groups = queryTermGroups(text);
+    const match = buildMatchExpression(groups, this.ftsSyntax);
+    const titleMatch = buildMatchExpression(groups, this.ftsSyntax, TITLE_COLUMNS);
+    if (!match || !titleMatch) {
+      return null;
+    }
+
+    return {
+      from: `${SEARCH_INDEX_TABLE} JOIN kalaam k ON k.id = ${SEARCH_INDEX_TABLE}.rowid`,
+      where: visibleWhere('search', [`${SEARCH_INDEX_TABLE} MATCH ?`, ...conditions], 'k'),
+      params: [match, ...params],
+      orderBy: `
+        CASE WHEN ${SEARCH_INDEX_TABLE}.rowid IN (
+          SELECT rowid FROM ${SEARCH_INDEX_TABLE} WHERE ${SEARCH_INDEX_TABLE} MATCH ?
+        ) THEN 1 ELSE 2 END,
+        ${rankExpression(this.ftsModule)},
+        k.title`,
+      orderParams: [titleMatch],
+    };
+  }
+
+  async getKalaamsByMasaib(
+    masaib: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<KalaamListResponse> {
+    return this.pageKalaams(['masaib = ?'], [masaib], page, limit);
   }
 
   async getKalaamsByPoet(
@@ -279,27 +543,7 @@ class Database {
     page: number = 1,
     limit: number = 50,
   ): Promise<KalaamListResponse> {
-    const db = this.ensureInitialized();
-    const offset = (page - 1) * limit;
-
-    const [countResult] = await db.executeSql(
-      'SELECT COUNT(*) as total FROM kalaam WHERE poet = ?',
-      [poet],
-    );
-
-    const total = countResult.rows.item(0).total;
-
-    const [result] = await db.executeSql(
-      'SELECT * FROM kalaam WHERE poet = ? ORDER BY title LIMIT ? OFFSET ?',
-      [poet, limit, offset],
-    );
-
-    const kalaams: Kalaam[] = [];
-    for (let i = 0; i < result.rows.length; i++) {
-      kalaams.push(result.rows.item(i));
-    }
-
-    return { kalaams, total, page, limit };
+    return this.pageKalaams(['poet = ?'], [poet], page, limit);
   }
 
   async getKalaamsByReciter(
@@ -307,35 +551,23 @@ class Database {
     page: number = 1,
     limit: number = 50,
   ): Promise<KalaamListResponse> {
-    const db = this.ensureInitialized();
-    const offset = (page - 1) * limit;
-
-    const [countResult] = await db.executeSql(
-      'SELECT COUNT(*) as total FROM kalaam WHERE reciter = ?',
-      [reciter],
-    );
-
-    const total = countResult.rows.item(0).total;
-
-    const [result] = await db.executeSql(
-      'SELECT * FROM kalaam WHERE reciter = ? ORDER BY title LIMIT ? OFFSET ?',
-      [reciter, limit, offset],
-    );
-
-    const kalaams: Kalaam[] = [];
-    for (let i = 0; i < result.rows.length; i++) {
-      kalaams.push(result.rows.item(i));
-    }
-
-    return { kalaams, total, page, limit };
+    return this.pageKalaams(['reciter = ?'], [reciter], page, limit);
   }
 
-  async getKalaamById(id: number): Promise<Kalaam | null> {
+  // Tombstones are skipped unless the caller asks for them (favourites and
+  // playlists still open removed kalaams), and come back flagged
+  async getKalaamById(
+    id: number,
+    { includeDeleted = false }: { includeDeleted?: boolean } = {},
+  ): Promise<Kalaam | null> {
     const db = this.ensureInitialized();
-    console.log('[Database] getKalaamById called with id:', id, 'type:', typeof id);
-    const [result] = await db.executeSql('SELECT * FROM kalaam WHERE id = ?', [id.toString()]);
-    console.log('[Database] getKalaamById result rows:', result.rows.length);
-    return result.rows.length > 0 ? result.rows.item(0) : null;
+    const where = includeDeleted ? 'id = ?' : 'id = ? AND COALESCE(deleted, 0) = 0';
+    const [result] = await db.executeSql(`SELECT * FROM kalaam WHERE ${where}`, [id.toString()]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const kalaam = result.rows.item(0);
+    return { ...kalaam, deleted: !!kalaam.deleted };
   }
 
   async getKalaamsByReciterAndMasaib(
@@ -343,20 +575,32 @@ class Database {
     masaib: string,
     page: number = 1,
     limit: number = 50,
+  ): Promise<KalaamListResponse> {
+    return this.pageKalaams(['reciter = ?', 'masaib = ?'], [reciter, masaib], page, limit);
+  }
+
+  // One page of browsable kalaams, ordered by title, with the total counted
+  // under the same WHERE clause
+  private async pageKalaams(
+    conditions: string[],
+    params: any[],
+    page: number,
+    limit: number,
   ): Promise<KalaamListResponse> {
     const db = this.ensureInitialized();
     const offset = (page - 1) * limit;
+    const where = visibleWhere('browse', conditions);
 
     const [countResult] = await db.executeSql(
-      'SELECT COUNT(*) as total FROM kalaam WHERE reciter = ? AND masaib = ?',
-      [reciter, masaib],
+      `SELECT COUNT(*) as total FROM kalaam ${where}`,
+      params,
     );
 
     const total = countResult.rows.item(0).total;
 
     const [result] = await db.executeSql(
-      'SELECT * FROM kalaam WHERE reciter = ? AND masaib = ? ORDER BY title LIMIT ? OFFSET ?',
-      [reciter, masaib, limit, offset],
+      `SELECT * FROM kalaam ${where} ORDER BY title LIMIT ? OFFSET ?`,
+      [...params, limit, offset],
     );
 
     const kalaams: Kalaam[] = [];
@@ -369,54 +613,33 @@ class Database {
 
   // Group operations
   async getMasaibGroups(): Promise<MasaibGroup[]> {
-    const db = this.ensureInitialized();
-    const [result] = await db.executeSql(
-      'SELECT masaib, COUNT(*) as count FROM kalaam WHERE masaib IS NOT NULL GROUP BY masaib ORDER BY count DESC, masaib ASC',
-    );
-
-    const groups: MasaibGroup[] = [];
-    for (let i = 0; i < result.rows.length; i++) {
-      const row = result.rows.item(i);
-      groups.push({
-        masaib: row.masaib,
-        count: row.count,
-      });
-    }
-
-    return groups;
+    const groups = await this.groupCounts('masaib');
+    return groups.map(({ value, count }) => ({ masaib: value, count }));
   }
 
   async getPoetGroups(): Promise<PoetGroup[]> {
-    const db = this.ensureInitialized();
-    const [result] = await db.executeSql(
-      'SELECT poet, COUNT(*) as count FROM kalaam WHERE poet IS NOT NULL GROUP BY poet ORDER BY count DESC, poet ASC',
-    );
-
-    const groups: PoetGroup[] = [];
-    for (let i = 0; i < result.rows.length; i++) {
-      const row = result.rows.item(i);
-      groups.push({
-        poet: row.poet,
-        count: row.count,
-      });
-    }
-
-    return groups;
+    const groups = await this.groupCounts('poet');
+    return groups.map(({ value, count }) => ({ poet: value, count }));
   }
 
   async getReciterGroups(): Promise<ReciterGroup[]> {
+    const groups = await this.groupCounts('reciter');
+    return groups.map(({ value, count }) => ({ reciter: value, count }));
+  }
+
+  // Browsable kalaams per value of a column, largest group first, with one
+  // of them. Counts match what pageKalaams lists for the same value.
+  private async groupCounts(column: 'masaib' | 'poet' | 'reciter'): Promise<NameGroup[]> {
     const db = this.ensureInitialized();
     const [result] = await db.executeSql(
-      'SELECT reciter, COUNT(*) as count FROM kalaam WHERE reciter IS NOT NULL GROUP BY reciter ORDER BY count DESC, reciter ASC',
+      `SELECT ${column} as value, COUNT(*) as count, MIN(id) as kalaamId FROM kalaam
+       ${visibleWhere('browse', [`${column} IS NOT NULL`])}
+       GROUP BY ${column} ORDER BY count DESC, ${column} ASC`,
     );
 
-    const groups: ReciterGroup[] = [];
+    const groups: NameGroup[] = [];
     for (let i = 0; i < result.rows.length; i++) {
-      const row = result.rows.item(i);
-      groups.push({
-        reciter: row.reciter,
-        count: row.count,
-      });
+      groups.push(result.rows.item(i));
     }
 
     return groups;
@@ -425,7 +648,9 @@ class Database {
   async getMasaibByReciter(reciter: string): Promise<string[]> {
     const db = this.ensureInitialized();
     const [result] = await db.executeSql(
-      'SELECT DISTINCT masaib FROM kalaam WHERE reciter = ? AND masaib IS NOT NULL ORDER BY masaib',
+      `SELECT DISTINCT masaib FROM kalaam
+       ${visibleWhere('browse', ['reciter = ?', 'masaib IS NOT NULL'])}
+       ORDER BY masaib`,
       [reciter],
     );
 
@@ -443,42 +668,276 @@ class Database {
     return timestamp ? parseInt(timestamp) : 0;
   }
 
-  async updateSyncTimestamp(): Promise<void> {
-    const now = Date.now();
-    await this.setSetting('last_source_sync_timestamp', now.toString());
+  async getSyncWatermark(): Promise<SyncWatermark> {
+    const timestamp = await this.getLastSyncTimestamp();
+    const cursor = await this.getSetting('last_source_sync_cursor');
+    if (cursor) {
+      try {
+        const watermark: SyncWatermark = JSON.parse(cursor);
+        // The cursor only holds while it agrees with the timestamp, which the
+        // baseline logic may rewrite on its own
+        if (watermarkMillis(watermark) === timestamp) {
+          return watermark;
+        }
+      } catch (error) {
+        console.error('[Database] Ignoring unreadable sync cursor:', error);
+      }
+    }
+    return {
+      seconds: Math.floor(timestamp / 1000),
+      nanoseconds: (timestamp % 1000) * 1e6,
+      docId: '',
+    };
   }
 
-  async upsertKalaam(kalaam: Kalaam): Promise<void> {
-    const db = this.ensureInitialized();
-    await db.executeSql(`
-      INSERT OR REPLACE INTO kalaam 
-      (id, title, lyrics_urdu, lyrics_eng, poet, reciter, masaib, yt_link, last_modified, deleted)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `, [
-      kalaam.id,
-      kalaam.title || '',
-      kalaam.lyrics_urdu || '',
-      kalaam.lyrics_eng || '',
-      kalaam.poet || '',
-      kalaam.reciter || '',
-      kalaam.masaib || '',
-      kalaam.yt_link || '',
-      kalaam.last_modified || new Date().toISOString(),
-      kalaam.deleted ? 1 : 0
-    ]);
+  async getCdcProgress(): Promise<CdcProgress | null> {
+    const progress = await this.getSetting('cdc_progress');
+    if (!progress) {
+      return null;
+    }
+    try {
+      return JSON.parse(progress);
+    } catch (error) {
+      console.error('[Database] Ignoring unreadable CDC progress:', error);
+      return null;
+    }
+  }
+
+  async upsertKalaam(row: KalaamRow): Promise<void> {
+    await this.applyChanges([row], []);
   }
 
   async deleteKalaam(id: number): Promise<void> {
+    await this.applyChanges([], [id]);
+  }
+
+  /**
+   * Apply a set of synced changes in one transaction. The sync positions in
+   * `progress` are stored in the same transaction, so the catalogue and the
+   * sync position can never disagree: either all of it lands or none does.
+   * Returns how many of the upserts are kalaams not stored before.
+   */
+  async applyChanges(
+    upserts: KalaamRow[],
+    deletes: number[],
+    progress: SyncProgress = {},
+  ): Promise<number> {
+    const db = this.ensureInitialized();
+    const existing = await this.loadExistingRows(upserts.map(row => row.id));
+    const changedAt = Date.now();
+
+    const statements: Array<[string, any[]]> = [];
+    for (const row of upserts) {
+      statements.push(...this.upsertStatements(row, existing.get(row.id)));
+      statements.push(...this.recentChangeStatements(row, existing.get(row.id), changedAt));
+    }
+    for (const id of deletes) {
+      statements.push(...this.deleteStatements(id));
+    }
+    if (upserts.length > 0) {
+      statements.push([
+        'DELETE FROM recent_changes WHERE kalaam_id NOT IN (SELECT kalaam_id FROM recent_changes ORDER BY changed_at DESC, kalaam_id DESC LIMIT ?)',
+        [RECENT_CHANGES_KEPT],
+      ]);
+    }
+    if (progress.watermark) {
+      statements.push(...this.watermarkStatements(progress.watermark));
+    }
+    if (progress.cdc) {
+      statements.push([
+        'INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)',
+        ['cdc_progress', JSON.stringify(progress.cdc), new Date().toISOString()],
+      ]);
+    }
+    if (statements.length > 0) {
+      await db.sqlBatch(statements);
+      this.nameGroups = null;
+    }
+    return upserts.filter(row => !existing.has(row.id) && !row.deleted).length;
+  }
+
+  // When each stored row was last modified, for sync to tell whether a
+  // change is newer than what it would overwrite
+  async getLastModified(ids: number[]): Promise<Map<number, string>> {
+    const rows = await this.loadExistingRows(ids);
+    const times = new Map<number, string>();
+    rows.forEach((row, id) => {
+      if (row.last_modified) {
+        times.set(id, row.last_modified);
+      }
+    });
+    return times;
+  }
+
+  // The rows already present, with their indexed text so a partial upsert
+  // can rebuild its search index entry
+  private async loadExistingRows(ids: number[]): Promise<Map<number, Partial<Kalaam>>> {
+    const db = this.ensureInitialized();
+    const rows = new Map<number, Partial<Kalaam>>();
+    // Stay well under SQLite's bound parameter limit
+    for (let i = 0; i < ids.length; i += 500) {
+      const chunk = ids.slice(i, i + 500);
+      const [result] = await db.executeSql(
+        `SELECT id, ${SEARCH_SOURCE_COLUMNS.join(', ')}, last_modified FROM kalaam WHERE id IN (${chunk.map(() => '?').join(', ')})`,
+        chunk,
+      );
+      for (let j = 0; j < result.rows.length; j++) {
+        const item = result.rows.item(j);
+        rows.set(item.id, item);
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Merge a row into kalaam. A new id is inserted; an existing one only has
+   * the columns present in `row` updated, so fields the server didn't send,
+   * and columns this code doesn't know about, are kept. An upserted row is
+   * live unless it says otherwise, which restores a tombstone.
+   */
+  private upsertStatements(upsert: KalaamRow, existing?: Partial<Kalaam>): Array<[string, any[]]> {
+    const row: KalaamRow = { ...upsert, deleted: upsert.deleted ?? 0 };
+    const columns = KALAAM_COLUMNS.filter(column => row[column] !== undefined);
+    const statements: Array<[string, any[]]> = [[
+      'INSERT OR IGNORE INTO kalaam (id, title, last_modified) VALUES (?, ?, ?)',
+      [row.id, row.title ?? '', row.last_modified ?? new Date().toISOString()],
+    ]];
+    if (columns.length > 0) {
+      statements.push([
+        `UPDATE kalaam SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+        [...columns.map(column => row[column]), row.id],
+      ]);
+    }
+
+    // Keep the search index in step with the merged row
+    if (this.ftsModule) {
+      statements.push(...(row.deleted
+        ? [[`DELETE FROM ${SEARCH_INDEX_TABLE} WHERE rowid = ?`, [row.id]] as [string, any[]]]
+        : searchIndexUpsertStatements({ ...existing, ...row } as Partial<Kalaam> & { id: number })));
+    }
+    return statements;
+  }
+
+  /**
+   * Note a synced row in the recent_changes feed. A row whose last_modified
+   * hasn't moved (a full sync re-reading it) isn't a change; a row first seen
+   * as added stays 'added' through later updates.
+   */
+  private recentChangeStatements(
+    row: KalaamRow,
+    existing: Partial<Kalaam> | undefined,
+    changedAt: number,
+  ): Array<[string, any[]]> {
+    if (row.deleted) {
+      return [['DELETE FROM recent_changes WHERE kalaam_id = ?', [row.id]]];
+    }
+    if (existing && row.last_modified !== undefined && existing.last_modified === row.last_modified) {
+      return [];
+    }
+    return [[
+      'INSERT OR REPLACE INTO recent_changes (kalaam_id, change_type, changed_at) VALUES (?, COALESCE((SELECT change_type FROM recent_changes WHERE kalaam_id = ?), ?), ?)',
+      [row.id, row.id, existing ? 'updated' : 'added', changedAt],
+    ]];
+  }
+
+  // Tombstone rather than delete, so a favourite can still show what it was
+  private deleteStatements(id: number): Array<[string, any[]]> {
+    const statements: Array<[string, any[]]> = [
+      ['UPDATE kalaam SET deleted = 1 WHERE id = ?', [id]],
+      ['DELETE FROM recent_changes WHERE kalaam_id = ?', [id]],
+    ];
+    if (this.ftsModule) {
+      statements.push([`DELETE FROM ${SEARCH_INDEX_TABLE} WHERE rowid = ?`, [id]]);
+    }
+    return statements;
+  }
+
+  private watermarkStatements(watermark: SyncWatermark): Array<[string, any[]]> {
+    const now = new Date().toISOString();
+    return [
+      [
+        'INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)',
+        ['last_source_sync_timestamp', watermarkMillis(watermark).toString(), now],
+      ],
+      [
+        'INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)',
+        ['last_source_sync_cursor', JSON.stringify(watermark), now],
+      ],
+    ];
+  }
+
+  // Kalaams sync added or changed, newest first
+  async getRecentlyAdded(limit: number = 20): Promise<RecentKalaam[]> {
     const db = this.ensureInitialized();
-    await db.executeSql('DELETE FROM kalaam WHERE id = ?', [id]);
+    const [result] = await db.executeSql(
+      `SELECT k.*, rc.change_type, rc.changed_at
+       FROM recent_changes rc
+       JOIN kalaam k ON k.id = rc.kalaam_id
+       ${visibleWhere('browse', [], 'k')}
+       ORDER BY rc.changed_at DESC, rc.kalaam_id DESC
+       LIMIT ?`,
+      [limit],
+    );
+    const kalaams: RecentKalaam[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      kalaams.push(result.rows.item(i));
+    }
+    return kalaams;
   }
 
   async getKalaamCount(): Promise<number> {
     const db = this.ensureInitialized();
-    const [result] = await db.executeSql('SELECT COUNT(*) as count FROM kalaam WHERE deleted = 0');
+    const [result] = await db.executeSql(`SELECT COUNT(*) as count FROM kalaam ${visibleWhere('browse')}`);
     return result.rows.item(0).count;
   }
 
+  // Sync event log, newest first; only the most recent runs are kept
+  async recordSyncEvent(event: SyncEvent): Promise<void> {
+    const db = this.ensureInitialized();
+    await db.sqlBatch([
+      [
+        'INSERT INTO sync_events (type, started_at, duration, records_processed, active_records, deleted_records, success, error) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [
+          event.type,
+          event.timestamp,
+          event.duration,
+          event.recordsProcessed,
+          event.activeRecords,
+          event.deletedRecords,
+          event.success ? 1 : 0,
+          event.error ?? null,
+        ],
+      ],
+      [
+        'DELETE FROM sync_events WHERE id NOT IN (SELECT id FROM sync_events ORDER BY started_at DESC, id DESC LIMIT ?)',
+        [SYNC_EVENTS_KEPT],
+      ],
+    ]);
+  }
+
+  async getSyncEvents(limit: number = 50): Promise<SyncEvent[]> {
+    const db = this.ensureInitialized();
+    const [result] = await db.executeSql(
+      'SELECT * FROM sync_events ORDER BY started_at DESC, id DESC LIMIT ?',
+      [limit],
+    );
+    const events: SyncEvent[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      const row = result.rows.item(i);
+      events.push({
+        type: row.type,
+        timestamp: row.started_at,
+        duration: row.duration,
+        recordsProcessed: row.records_processed,
+        activeRecords: row.active_records,
+        deletedRecords: row.deleted_records,
+        success: !!row.success,
+        error: row.error ?? undefined,
+      });
+    }
+    return events;
+  }
+
   // Sync attempt tracking methods
   async getDailySyncAttempts(): Promise<{ date: string; attempts: number }> {
     const db = this.ensureInitialized();
@@ -528,49 +987,63 @@ class Database {
     return attempts < 2; // Maximum 2 manual syncs per day
   }
 
-  private async setInitialSyncTimestamp(): Promise<void> {
+  /**
+   * Build metadata the bundled database.sqlite was stamped with by
+   * stamp-bundle-meta.js, or null for a bundle without it.
+   */
+  async getBundleMeta(): Promise<BundleMeta | null> {
     const db = this.ensureInitialized();
-    // HARDCODED: October 8th, 2024, 12:01 PM (UTC)
-    const hardcodedTime = new Date('2024-10-08T12:01:00Z').getTime();
-    
-    try {
-      // Check if last_source_sync_timestamp already exists
-      const [result] = await db.executeSql(
-        'SELECT value FROM settings WHERE key = ?',
-        ['last_source_sync_timestamp']
-      );
-      
-      // Only set initial timestamp if it doesn't exist (new app install)
-      if (result.rows.length === 0) {
-        await db.executeSql(
-          'INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)',
-          ['last_source_sync_timestamp', hardcodedTime.toString(), new Date().toISOString()]
-        );
-        console.log('[Database] Initial sync timestamp set to HARDCODED date:', new Date(hardcodedTime).toISOString());
-      } else {
-        console.log('[Database] Sync timestamp already exists, keeping existing value');
-      }
-    } catch (error) {
-      console.error('[Database] Failed to set initial sync timestamp:', error);
+    const [table] = await db.executeSql(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'bundle_meta'",
+    );
+    if (table.rows.length === 0) {
+      return null;
     }
+
+    const [result] = await db.executeSql('SELECT key, value FROM bundle_meta');
+    const meta: Record<string, string> = {};
+    for (let i = 0; i < result.rows.length; i++) {
+      meta[result.rows.item(i).key] = result.rows.item(i).value;
+    }
+    if (!meta.built_at) {
+      return null;
+    }
+    return {
+      builtAt: meta.built_at,
+      recordCount: Number(meta.record_count) || 0,
+    };
   }
 
-  // Method to reset sync timestamp for new app installs (when SQLite is recreated)
-  async resetSyncTimestampForNewInstall(): Promise<void> {
+  // Set the sync watermark on first open only; later launches keep whatever
+  // sync has advanced it to
+  private async ensureSyncBaseline(): Promise<void> {
+    if (await this.getSetting('last_source_sync_timestamp')) {
+      return;
+    }
     const db = this.ensureInitialized();
-    // HARDCODED: October 8th, 2024, 12:01 PM (UTC)
-    const hardcodedTime = new Date('2024-10-08T12:01:00Z').getTime();
-    
-    try {
-      // Always update to hardcoded date for new installs
-      await db.executeSql(
-        'INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)',
-        ['last_source_sync_timestamp', hardcodedTime.toString(), new Date().toISOString()]
-      );
-      console.log('[Database] Sync timestamp reset to HARDCODED date:', new Date(hardcodedTime).toISOString());
-    } catch (error) {
-      console.error('[Database] Failed to reset sync timestamp:', error);
+
+    let baseline = 0;
+    const meta = await this.getBundleMeta();
+    if (meta) {
+      baseline = new Date(meta.builtAt).getTime() || 0;
+      // stamp-bundle-meta.js counts every live row, special content included
+      const [result] = await db.executeSql(`SELECT COUNT(*) AS count FROM kalaam ${visibleWhere('search')}`);
+      const count = result.rows.item(0).count;
+      if (count !== meta.recordCount) {
+        console.warn(`[Database] Bundle lists ${meta.recordCount} records but holds ${count}`);
+      }
+    } else {
+      // Older bundles: the newest change they contain is the best we know
+      const [result] = await db.executeSql('SELECT MAX(last_modified) AS latest FROM kalaam');
+      const latest = result.rows.item(0).latest;
+      baseline = latest ? new Date(latest).getTime() || 0 : 0;
     }
+
+    await db.executeSql(
+      'INSERT OR IGNORE INTO settings (key, value, updated_at) VALUES (?, ?, ?)',
+      ['last_source_sync_timestamp', baseline.toString(), new Date().toISOString()],
+    );
+    console.log('[Database] Sync baseline set to', new Date(baseline).toISOString());
   }
 
   async close(): Promise<void> {
@@ -0,0 +1,118 @@
+/**
+ * Firestore document → SQLite row mapping for kalaam
+ *
+ * Sync never writes a Firestore document straight into the kalaam table.
+ * Only the fields listed here are copied, each through a converter that
+ * turns the Firestore value into what the column stores. Unknown server
+ * fields are dropped, and fields the server didn't send are left out of the
+ * row so the upsert keeps whatever the local row already has.
+ */
+
+export type KalaamColumnValue = string | number | null;
+
+// A partial kalaam row: only the columns present are written
+export type KalaamRow = { id: number } & Partial<
+  Record<KalaamColumn, KalaamColumnValue>
+>;
+
+type Converter = (value: unknown) => KalaamColumnValue | undefined;
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return undefined;
+}
+
+// Firestore Timestamp, Date, epoch millis or an ISO string → ISO string
+function timestamp(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return new Date(value).toISOString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate().toISOString();
+  }
+  return undefined;
+}
+
+function flag(value: unknown): number | undefined {
+  if (typeof value === 'boolean' || typeof value === 'number') {
+    return value ? 1 : 0;
+  }
+  return undefined;
+}
+
+const FIELD_CONVERTERS = {
+  title: text,
+  lyrics_urdu: text,
+  lyrics_eng: text,
+  poet: text,
+  reciter: text,
+  masaib: text,
+  yt_link: text,
+  source_url: text,
+  fetched_at: timestamp,
+  last_modified: timestamp,
+  deleted: flag,
+} satisfies Record<string, Converter>;
+
+export type KalaamColumn = keyof typeof FIELD_CONVERTERS;
+
+// Columns sync may write, besides id
+export const KALAAM_COLUMNS = Object.keys(FIELD_CONVERTERS) as KalaamColumn[];
+
+/**
+ * The local integer id for a source id, or null if it has none.
+ *
+ * The approval scripts in app-script/ give new kalaams an id of the approval
+ * time in milliseconds times 1000 plus a random 0-999. Before that they
+ * wrote 'user_submitted_<ms>_<base36>', which maps to <ms> times 1000 plus
+ * the base-36 part mod 1000. That mapping is stable, so every change logged
+ * for a legacy id lands on the same row.
+ */
+export function localKalaamId(id: string | number): number | null {
+  const source = String(id);
+  if (/^-?\d+$/.test(source)) {
+    return Number(source);
+  }
+  const legacy = /^user_submitted_(\d+)_([0-9a-z]+)$/.exec(source);
+  if (legacy) {
+    return Number(legacy[1]) * 1000 + (parseInt(legacy[2], 36) % 1000);
+  }
+  return null;
+}
+
+/**
+ * Map a Firestore kalaam document (or CDC change) to a row. Returns null when
+ * the id has no local integer id.
+ */
+export function kalaamRowFromDocument(
+  id: string | number,
+  data: Record<string, unknown>,
+): KalaamRow | null {
+  const localId = localKalaamId(id);
+  if (localId === null) {
+    return null;
+  }
+
+  const row: KalaamRow = { id: localId };
+  for (const column of KALAAM_COLUMNS) {
+    if (data[column] === undefined) {
+      continue;
+    }
+    const value = FIELD_CONVERTERS[column](data[column]);
+    if (value !== undefined) {
+      row[column] = value;
+    }
+  }
+  return row;
+}
@@ -0,0 +1,246 @@
+import { SQLiteDatabase } from 'react-native-sqlite-storage';
+
+/**
+ * Schema migrations for the local database
+ *
+ * The schema version lives in `PRAGMA user_version`. Each migration moves the
+ * schema from `version - 1` to `version`; its statements run in one
+ * transaction together with the user_version bump, so a migration either
+ * lands completely or not at all, and a failure stops init() with an error
+ * naming the migration.
+ *
+ * Migrations are append-only: never edit one that has shipped, add a new one
+ * with the next version instead. The bundled database.sqlite starts at
+ * user_version 0 with only the kalaam table, and installs from before this
+ * runner already have some of these changes, so early migrations check the
+ * current schema rather than assume it.
+ */
+
+export type MigrationStatement = string | [string, any[]];
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Works out the statements against the current schema
+  statements(db: SQLiteDatabase): Promise<MigrationStatement[]>;
+}
+
+async function columnsOf(db: SQLiteDatabase, table: string): Promise<Set<string>> {
+  const [result] = await db.executeSql(`PRAGMA table_info(${table})`);
+  const columns = new Set<string>();
+  for (let i = 0; i < result.rows.length; i++) {
+    columns.add(result.rows.item(i).name);
+  }
+  return columns;
+}
+
+async function addMissingColumns(
+  db: SQLiteDatabase,
+  table: string,
+  definitions: Record<string, string>,
+): Promise<MigrationStatement[]> {
+  const existing = await columnsOf(db, table);
+  if (existing.size === 0) {
+    // No table yet: the migration's CREATE TABLE already has the columns
+    return [];
+  }
+  return Object.entries(definitions)
+    .filter(([column]) => !existing.has(column))
+    .map(([column, type]) => `ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'core tables',
+    statements: async db => [
+      // Normally shipped in the bundled database; created for empty ones
+      `CREATE TABLE IF NOT EXISTS kalaam (
+        id INTEGER PRIMARY KEY,
+        title TEXT NOT NULL,
+        lyrics_urdu TEXT,
+        lyrics_eng TEXT,
+        poet TEXT,
+        reciter TEXT,
+        masaib TEXT,
+        yt_link TEXT,
+        source_url TEXT,
+        fetched_at TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at DATETIME
+      )`,
+      `CREATE TABLE IF NOT EXISTS favourites (
+        kalaam_id INTEGER PRIMARY KEY,
+        created_at DATETIME,
+        pinned BOOLEAN DEFAULT FALSE
+      )`,
+      // Favourites created before pinning existed
+      ...(await addMissingColumns(db, 'favourites', {
+        pinned: 'BOOLEAN DEFAULT FALSE',
+      })),
+    ],
+  },
+  {
+    version: 2,
+    description: 'kalaam sync columns',
+    statements: async db => [
+      ...(await addMissingColumns(db, 'kalaam', {
+        last_modified: 'TIMESTAMP',
+        deleted: 'BOOLEAN DEFAULT FALSE',
+      })),
+      'CREATE INDEX IF NOT EXISTS idx_kalaam_deleted ON kalaam(deleted)',
+      'CREATE INDEX IF NOT EXISTS idx_kalaam_last_modified ON kalaam(last_modified)',
+    ],
+  },
+  {
+    version: 3,
+    description: 'sync event log',
+    statements: async () => [
+      `CREATE TABLE IF NOT EXISTS sync_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        duration INTEGER NOT NULL,
+        records_processed INTEGER NOT NULL DEFAULT 0,
+        success BOOLEAN NOT NULL,
+        error TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_sync_events_started_at ON sync_events(started_at)',
+    ],
+  },
+  {
+    version: 4,
+    description: 'sync event counts',
+    statements: async db =>
+      addMissingColumns(db, 'sync_events', {
+        active_records: 'INTEGER NOT NULL DEFAULT 0',
+        deleted_records: 'INTEGER NOT NULL DEFAULT 0',
+      }),
+  },
+  {
+    version: 5,
+    description: 'recent changes feed',
+    statements: async () => [
+      `CREATE TABLE IF NOT EXISTS recent_changes (
+        kalaam_id INTEGER PRIMARY KEY,
+        change_type TEXT NOT NULL,
+        changed_at INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_recent_changes_changed_at ON recent_changes(changed_at)',
+    ],
+  },
+  {
+    version: 6,
+    description: 'tombstone orphaned favourites',
+    // Sync used to hard-delete kalaams, leaving favourites that point at
+    // nothing; deletes now leave tombstones. Give those favourites one too,
+    // so they show as removed instead of vanishing. Special content has
+    // negative ids.
+    statements: async () => [
+      `INSERT INTO kalaam (id, title, deleted)
+        SELECT kalaam_id, 'Removed kalaam', 1 FROM favourites
+        WHERE kalaam_id >= 0 AND kalaam_id NOT IN (SELECT id FROM kalaam)`,
+    ],
+  },
+  {
+    version: 7,
+    description: 'favourite pin order',
+    statements: async db => [
+      ...(await addMissingColumns(db, 'favourites', {
+        pinned_at: 'DATETIME',
+        pin_order: 'INTEGER',
+      })),
+      // Pinning used to rewrite created_at, so for existing pins it is the
+      // pin date; number them in that order. Special content stays unnumbered.
+      `UPDATE favourites SET
+        pinned_at = created_at,
+        pin_order = (
+          SELECT COUNT(*) FROM favourites earlier
+          WHERE earlier.pinned = 1 AND earlier.kalaam_id >= 0
+            AND (earlier.created_at < favourites.created_at
+              OR (earlier.created_at = favourites.created_at AND earlier.kalaam_id <= favourites.kalaam_id))
+        )
+      WHERE pinned = 1 AND kalaam_id >= 0`,
+    ],
+  },
+  {
+    version: 8,
+    description: 'playlists',
+    statements: async () => [
+      `CREATE TABLE IF NOT EXISTS playlists (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        created_at DATETIME,
+        updated_at DATETIME
+      )`,
+      `CREATE TABLE IF NOT EXISTS playlist_items (
+        playlist_id INTEGER NOT NULL,
+        kalaam_id INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        added_at DATETIME,
+        PRIMARY KEY (playlist_id, kalaam_id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_playlist_items_position ON playlist_items(playlist_id, position)',
+    ],
+  },
+  {
+    version: 9,
+    description: 'search history and saved searches',
+    statements: async () => [
+      // One row per query, whatever its case; a repeat moves it to the top
+      `CREATE TABLE IF NOT EXISTS search_history (
+        query TEXT PRIMARY KEY COLLATE NOCASE,
+        searched_at DATETIME NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS saved_searches (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        query TEXT NOT NULL,
+        filters TEXT NOT NULL,
+        pinned INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME
+      )`,
+    ],
+  },
+];
+
+export async function getSchemaVersion(db: SQLiteDatabase): Promise<number> {
+  const [result] = await db.executeSql('PRAGMA user_version');
+  return result.rows.item(0).user_version;
+}
+
+/**
+ * Bring the schema up to the latest migration. Returns the resulting
+ * version. Throws, leaving the failed migration unapplied, if any step fails.
+ */
+export async function runMigrations(
+  db: SQLiteDatabase,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<number> {
+  let version = await getSchemaVersion(db);
+  const pending = migrations
+    .filter(migration => migration.version > version)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      const statements = await migration.statements(db);
+      await db.sqlBatch([
+        ...statements,
+        `PRAGMA user_version = ${migration.version}`,
+      ]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Migration ${migration.version} (${migration.description}) failed: ${message}`,
+      );
+    }
+    version = migration.version;
+    console.log(`[Database] Migrated schema to version ${version} (${migration.description})`);
+  }
+
+  return version;
+}
@@ -0,0 +1,191 @@
+import { Kalaam } from '../types';
+import {
+  normalizeRomanUrdu,
+  normalizeUrduScript,
+} from '../utils/SearchNormalizer';
+
+/**
+ * Full-text search index helpers
+ *
+ * The kalaam text is mirrored into a `kalaam_fts` virtual table whose rowid is
+ * the kalaam id. FTS5 is preferred (iOS ships it), but Android's framework
+ * SQLite only has FTS3/FTS4, so the index falls back to FTS4 there. The two
+ * modules differ in query syntax and ranking, which is what this file hides.
+ *
+ * Bump SEARCH_INDEX_VERSION whenever the indexed columns or the way rows are
+ * built changes; Database.init() rebuilds the index when the stored version
+ * differs.
+ */
+
+export type FtsModule = 'fts5' | 'fts4';
+
+/**
+ * The MATCH query dialect. FTS5 has brackets and gives OR a lower
+ * precedence than AND. So does FTS4's "enhanced" syntax, which SQLite only
+ * has when built with SQLITE_ENABLE_FTS3_PARENTHESIS; its "standard" syntax
+ * has no brackets and binds OR tighter than the implicit AND.
+ */
+export type MatchSyntax = 'fts5' | 'fts4-enhanced' | 'fts4-standard';
+
+// The dialect of a module, given SQLite's PRAGMA compile_options
+export function matchSyntax(module: FtsModule, compileOptions: string[]): MatchSyntax {
+  if (module === 'fts5') {
+    return 'fts5';
+  }
+  return compileOptions.includes('ENABLE_FTS3_PARENTHESIS') ? 'fts4-enhanced' : 'fts4-standard';
+}
+
+export const SEARCH_INDEX_TABLE = 'kalaam_fts';
+export const SEARCH_INDEX_VERSION = 4;
+
+// Indexed columns, in table order. Text columns are stored with Urdu script
+// normalised; the *_phonetic columns hold the Roman-Urdu phonetic key of their
+// source column.
+export const SEARCH_INDEX_COLUMNS = [
+  'title',
+  'lyrics_eng',
+  'lyrics_urdu',
+  'title_phonetic',
+  'lyrics_eng_phonetic',
+] as const;
+
+// kalaam columns the index values are derived from
+export const SEARCH_SOURCE_COLUMNS = ['title', 'lyrics_eng', 'lyrics_urdu'] as const;
+
+// Columns that count as a "title hit" when ranking
+export const TITLE_COLUMNS = ['title', 'title_phonetic'];
+
+// bm25 weights per indexed column (FTS5 only)
+const BM25_WEIGHTS = [10.0, 1.0, 1.0, 10.0, 1.0];
+
+export function createSearchIndexSql(module: FtsModule): string {
+  const columns = SEARCH_INDEX_COLUMNS.join(', ');
+  if (module === 'fts5') {
+    return `CREATE VIRTUAL TABLE ${SEARCH_INDEX_TABLE} USING fts5(${columns}, tokenize='unicode61 remove_diacritics 2')`;
+  }
+  return `CREATE VIRTUAL TABLE ${SEARCH_INDEX_TABLE} USING fts4(${columns}, tokenize=unicode61)`;
+}
+
+/**
+ * Values stored in the index for a kalaam, in SEARCH_INDEX_COLUMNS order.
+ */
+export function searchIndexValues(kalaam: Partial<Kalaam>): string[] {
+  const title = kalaam.title || '';
+  const lyricsEng = kalaam.lyrics_eng || '';
+  return [
+    normalizeUrduScript(title),
+    lyricsEng,
+    normalizeUrduScript(kalaam.lyrics_urdu || ''),
+    normalizeRomanUrdu(title),
+    normalizeRomanUrdu(lyricsEng),
+  ];
+}
+
+/**
+ * Statements that replace a kalaam's row in the index.
+ */
+export function searchIndexUpsertStatements(
+  kalaam: Partial<Kalaam> & { id: number },
+): Array<[string, any[]]> {
+  const placeholders = SEARCH_INDEX_COLUMNS.map(() => '?').join(', ');
+  return [
+    [`DELETE FROM ${SEARCH_INDEX_TABLE} WHERE rowid = ?`, [kalaam.id]],
+    [
+      `INSERT INTO ${SEARCH_INDEX_TABLE} (rowid, ${SEARCH_INDEX_COLUMNS.join(', ')}) VALUES (?, ${placeholders})`,
+      [kalaam.id, ...searchIndexValues(kalaam)],
+    ],
+  ];
+}
+
+// ASCII punctuation and whitespace, and the Urdu comma, semicolon, question
+// mark and full stop
+const SEPARATORS = '\\s\\u0020-\\u002f\\u003a-\\u0040\\u005b-\\u0060\\u007b-\\u007f\\u060c\\u061b\\u061f\\u06d4';
+
+/**
+ * Split a user query into index terms. All ASCII punctuation (which includes
+ * everything with a meaning in the FTS query language) and Urdu punctuation
+ * is treated as a separator, so every term is a plain bareword in both
+ * modules.
+ */
+export function tokenizeQuery(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(new RegExp(`[${SEPARATORS}]+`))
+    .filter(term => term.length > 0);
+}
+
+/**
+ * The words of a text with their offsets, split the way tokenizeQuery
+ * splits a query.
+ */
+export function wordSpans(text: string): Array<{ word: string; start: number; end: number }> {
+  const spans: Array<{ word: string; start: number; end: number }> = [];
+  for (const match of text.matchAll(new RegExp(`[^${SEPARATORS}]+`, 'g'))) {
+    const start = match.index ?? 0;
+    spans.push({ word: match[0], start, end: start + match[0].length });
+  }
+  return spans;
+}
+
+/**
+ * Term groups for buildMatchExpression: each query term may match as typed
+ * (with Urdu script normalised, like the index) or by its phonetic key.
+ */
+export function queryTermGroups(query: string): string[][] {
+  return tokenizeQuery(normalizeUrduScript(query)).map(term => [
+    term,
+    // tokenizeQuery split on everything the key turns into a space, so the
+    // key is a single word too
+    normalizeRomanUrdu(term),
+  ]);
+}
+
+/**
+ * Build a MATCH expression from term groups. Every group must match (AND);
+ * any variant inside a group may match (OR). Each variant is a prefix query,
+ * so "abba" finds "abbas". When columns are given the match is restricted to
+ * them.
+ *
+ * Where the syntax has brackets each group is bracketed, since OR binds
+ * looser than AND there. FTS4's standard syntax has none, but binds OR
+ * tighter than the implicit AND, so "a OR b c" already means (a OR b) AND c.
+ */
+export function buildMatchExpression(
+  groups: string[][],
+  syntax: MatchSyntax,
+  columns?: string[],
+): string | null {
+  const nonEmpty = groups
+    .map(variants => Array.from(new Set(variants.filter(Boolean))))
+    .filter(variants => variants.length > 0);
+  if (nonEmpty.length === 0) {
+    return null;
+  }
+
+  if (syntax === 'fts5') {
+    const expr = nonEmpty
+      .map(variants => `(${variants.map(v => `${v}*`).join(' OR ')})`)
+      .join(' AND ');
+    return columns ? `{${columns.join(' ')}} : (${expr})` : expr;
+  }
+
+  const ors = nonEmpty.map(variants =>
+    variants
+      .flatMap(v => (columns ? columns.map(c => `${c}:${v}*`) : [`${v}*`]))
+      .join(' OR '),
+  );
+  return syntax === 'fts4-enhanced' ? ors.map(or => `(${or})`).join(' AND ') : ors.join(' ');
+}
+
+/**
+ * ORDER BY expression ranking the best matches first (smaller is better).
+ * FTS5 has bm25(); for FTS4 the number of matched tokens is counted from
+ * offsets(), which returns four integers per match.
+ */
+export function rankExpression(module: FtsModule): string {
+  if (module === 'fts5') {
+    return `bm25(${SEARCH_INDEX_TABLE}, ${BM25_WEIGHTS.map(w => w.toFixed(1)).join(', ')})`;
+  }
+  const offsets = `offsets(${SEARCH_INDEX_TABLE})`;
+  return `-((length(${offsets}) - length(replace(${offsets}, ' ', '')) + 1) / 4)`;
+}
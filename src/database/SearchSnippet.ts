@@ -0,0 +1,68 @@
+import { Kalaam, LyricsLanguage, SearchSnippet } from '../types';
+import { normalizeRomanUrdu, normalizeUrduScript } from '../utils/SearchNormalizer';
+import { wordSpans } from './SearchIndex';
+
+/**
+ * Matching-line snippets for search results
+ *
+ * The FTS index says whether a kalaam matches, not where, and its phonetic
+ * columns don't line up with the lyrics anyway. So the lyric line shown under
+ * a result is found here, by matching each word of each line against the
+ * query's term groups the same way the index does: the typed term or its
+ * phonetic key, as a prefix.
+ */
+
+// Lines as KalaamScreen shows them; snippet line numbers index into these
+export function lyricLines(lyrics: string | null | undefined): string[] {
+  return lyrics ? lyrics.split(/\r?\n/) : [];
+}
+
+function wordMatches(word: string, variants: string[]): boolean {
+  const typed = normalizeUrduScript(word).toLowerCase();
+  const key = normalizeRomanUrdu(word);
+  return variants.some(
+    (variant, i) => variant.length > 0 && (i === 0 ? typed : key).startsWith(variant),
+  );
+}
+
+/**
+ * The lyric line matching the most term groups (see queryTermGroups), with
+ * the offsets of its matching words. English is checked before Urdu, and
+ * the first line wins a tie. Null when no line matches, e.g. a title-only
+ * hit.
+ */
+export function bestMatchingLine(
+  kalaam: Pick<Kalaam, 'lyrics_eng' | 'lyrics_urdu'>,
+  groups: string[][],
+): SearchSnippet | null {
+  if (groups.length === 0) {
+    return null;
+  }
+
+  let best: SearchSnippet | null = null;
+  let bestScore = 0;
+  const sources: Array<[LyricsLanguage, string]> = [
+    ['english', kalaam.lyrics_eng],
+    ['urdu', kalaam.lyrics_urdu],
+  ];
+  for (const [language, lyrics] of sources) {
+    lyricLines(lyrics).forEach((text, line) => {
+      const matched = new Set<number>();
+      const matches: SearchSnippet['matches'] = [];
+      for (const { word, start, end } of wordSpans(text)) {
+        const hits = groups
+          .map((variants, group) => (wordMatches(word, variants) ? group : -1))
+          .filter(group => group >= 0);
+        if (hits.length > 0) {
+          hits.forEach(group => matched.add(group));
+          matches.push({ start, end });
+        }
+      }
+      if (matched.size > bestScore) {
+        bestScore = matched.size;
+        best = { language, line, text, matches };
+      }
+    });
+  }
+  return best;
+}
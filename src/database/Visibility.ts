@@ -0,0 +1,38 @@
+/**
+ * Which kalaam rows each read path may return
+ *
+ * Every catalogue query builds its WHERE clause here, so a count and the
+ * list it describes always apply the same rules:
+ *  - tombstones (deleted = 1, left behind by sync deletes) are never listed;
+ *  - special content (Hadees e Kisa, Ziyarat Ashura; negative ids) belongs
+ *    to Favourites and stays out of browsing, but search can still find it.
+ *
+ * getKalaamById opens special content directly, and tombstones only when
+ * the caller passes includeDeleted (favourites and playlists keep them).
+ */
+
+export type Visibility = 'browse' | 'search';
+
+export function visibilityConditions(visibility: Visibility, alias?: string): string[] {
+  const column = (name: string) => (alias ? `${alias}.${name}` : name);
+  const conditions = [`COALESCE(${column('deleted')}, 0) = 0`];
+  if (visibility === 'browse') {
+    conditions.push(`${column('id')} >= 0`);
+  }
+  return conditions;
+}
+
+/**
+ * A WHERE clause of the given conditions plus the visibility rules. The
+ * conditions' parameters stay with the caller, in the same order.
+ */
+export function visibleWhere(
+  visibility: Visibility,
+  conditions: string[] = [],
+  alias?: string,
+): string {
+  return `WHERE ${[
+    ...conditions.map(condition => `(${condition})`),
+    ...visibilityConditions(visibility, alias),
+  ].join(' AND ')}`;
+}
@@ -1,17 +1,50 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity, ScrollView } from 'react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  FlatList,
+  ListRenderItem,
+  Alert,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useNavigation, useIsFocused } from '@react-navigation/native';
-import { StackNavigationProp } from '@react-navigation/stack';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 
 import AppHeader from '../components/AppHeader';
+import DraggableRow from '../components/DraggableRow';
+import OptionPickerModal, { PickerOption } from '../components/OptionPickerModal';
+import UndoSnackbar from '../components/UndoSnackbar';
 import { useThemeTokens, useSettings } from '../context/SettingsContext';
 import database from '../database/Database';
-import { RootStackParamList, Kalaam } from '../types';
+import {
+  TabParamList,
+  Kalaam,
+  Playlist,
+  FavouritesQuery,
+  FavouritesSort,
+  FavouritesFacets,
+  FavouritesUndo,
+} from '../types';
 import FavoritesService from '../services/FavoritesService';
+import PlaylistService from '../services/PlaylistService';
 
-type Nav = StackNavigationProp<RootStackParamList>;
+// Favourites is a tab; kalaams and playlists open in the Home stack
+type Nav = BottomTabNavigationProp<TabParamList>;
+
+type Filter = 'sort' | 'reciter' | 'masaib';
+
+const SORT_OPTIONS: PickerOption<FavouritesSort>[] = [
+  { label: 'Date added', value: 'added' },
+  { label: 'Title', value: 'title' },
+  { label: 'Reciter', value: 'reciter' },
+  { label: 'Masaib', value: 'masaib' },
+];
+
+const nohas = (count: number) => `${count} ${count === 1 ? 'noha' : 'nohas'}`;
 
 export default function FavouritesScreen() {
   const t = useThemeTokens();
@@ -21,247 +54,485 @@ export default function FavouritesScreen() {
   const [kalaams, setKalaams] = useState<Kalaam[]>([]);
   const [totalKalaams, setTotalKalaams] = useState(0);
   const [loading, setLoading] = useState(true);
-  const [pinnedKalaams, setPinnedKalaams] = useState<Kalaam[]>([]);
-  const [pinStates, setPinStates] = useState<Record<number, boolean>>({});
+  const [pinnedIds, setPinnedIds] = useState<Set<number>>(new Set());
   const limit = 50;
   
   // Pagination states
-  const [lastVisibleDoc, setLastVisibleDoc] = useState<any | undefined>(undefined);
   const [nextPageLoading, setNextPageLoading] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
+  const [draggingPin, setDraggingPin] = useState(false);
 
-  useEffect(() => {
-    if (isFocused) {
-      load();
-    }
-  }, [isFocused]);
+  // Sorting and filtering
+  const [query, setQuery] = useState<FavouritesQuery>({ sort: 'added' });
+  const [facets, setFacets] = useState<FavouritesFacets>({ reciters: [], masaib: [] });
+  const [openFilter, setOpenFilter] = useState<Filter | null>(null);
+
+  // Multi-select; special content can't be selected
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [playlists, setPlaylists] = useState<Playlist[] | null>(null);
 
-  const load = async (startDoc?: any, append: boolean = false) => {
+  // The last change, until it's undone or the snackbar goes away
+  const [lastChange, setLastChange] = useState<{ message: string; undo: FavouritesUndo } | null>(null);
+
+  // The first `count` favourites; a refresh passes how many are shown so the
+  // user keeps their place
+  const load = useCallback(async (showSpinner: boolean = true, count: number = limit) => {
     try {
-      if (!append) {
+      if (showSpinner) {
         setLoading(true);
-      } else {
-        setNextPageLoading(true);
       }
-      
-      const [result, pinned] = await Promise.all([
-        FavoritesService.getFavoriteKalaams(limit, startDoc),
-        FavoritesService.getPinnedKalaams()
+      const [result, pinned, found] = await Promise.all([
+        FavoritesService.getFavoriteKalaams(Math.max(limit, count), 0, query),
+        FavoritesService.getPinnedKalaams(),
+        FavoritesService.getFavoriteFacets(),
       ]);
-      
-      if (append) {
-        setKalaams(prev => [...prev, ...result.kalaams]);
-      } else {
-        // Sort kalaams: special content (negative IDs) first, then pinned, then others
-        const sortedKalaams = result.kalaams.sort((a, b) => {
-          // Special content always comes first
-          if (a.id < 0 && b.id >= 0) return -1;
-          if (a.id >= 0 && b.id < 0) return 1;
-          
-          // Within special content, Hadees e Kisa (-1) comes before Ziyarat Ashura (-2)
-          if (a.id < 0 && b.id < 0) {
-            return a.id - b.id; // -1 comes before -2
-          }
-          
-          // Within non-special content, sort by pinned status
-          if (a.id >= 0 && b.id >= 0) {
-            const aPinned = pinned.some(p => p.id === a.id);
-            const bPinned = pinned.some(p => p.id === b.id);
-            if (aPinned && !bPinned) return -1;
-            if (!aPinned && bPinned) return 1;
-          }
-          
-          return 0;
-        });
-        setKalaams(sortedKalaams);
-      }
-      
+      setKalaams(result.kalaams);
       setTotalKalaams(result.total);
-      setLastVisibleDoc(result.lastVisibleDoc);
-      setHasMore(result.kalaams.length === limit && !!result.lastVisibleDoc);
-      setPinnedKalaams(pinned);
-      
-      // Load pin states for all kalaams
-      const pinStates: Record<number, boolean> = {};
-      for (const kalaam of result.kalaams) {
-        pinStates[kalaam.id] = await FavoritesService.isPinned(kalaam.id);
-      }
-      setPinStates(pinStates);
+      setPinnedIds(new Set(pinned.map(k => k.id)));
+      setFacets(found);
     } finally {
       setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    if (isFocused) {
+      load();
+    }
+  }, [isFocused, load]);
+
+  const loadMore = async () => {
+    try {
+      setNextPageLoading(true);
+      const result = await FavoritesService.getFavoriteKalaams(limit, kalaams.length, query);
+      setKalaams(prev => [...prev, ...result.kalaams]);
+      setTotalKalaams(result.total);
+    } finally {
       setNextPageLoading(false);
     }
   };
 
   const togglePin = async (kalaamId: number) => {
     try {
-      const isPinned = pinStates[kalaamId];
-      
-      if (isPinned) {
+      if (pinnedIds.has(kalaamId)) {
         await FavoritesService.unpinKalaam(kalaamId);
-        setPinStates(prev => ({ ...prev, [kalaamId]: false }));
-        setPinnedKalaams(prev => prev.filter(k => k.id !== kalaamId));
       } else {
-        const success = await FavoritesService.pinKalaam(kalaamId);
-        if (success) {
-          setPinStates(prev => ({ ...prev, [kalaamId]: true }));
-          // Add to pinned list
-          const kalaam = kalaams.find(k => k.id === kalaamId);
-          if (kalaam) {
-            setPinnedKalaams(prev => [...prev, kalaam]);
-          }
-        } else {
-          // Show error - max pins reached
-          console.log('Max pins reached (3)');
+        const result = await FavoritesService.pinKalaam(kalaamId);
+        if (result === 'limit_reached') {
+          Alert.alert(
+            'Pins full',
+            `You can pin up to ${FavoritesService.MAX_PINS} nohas. Unpin one to make room.`
+          );
+          return;
         }
       }
-      
-      // Re-sort the kalaams list to move pinned items to top
-      setKalaams(prev => {
-        const updatedPinned = isPinned 
-          ? pinnedKalaams.filter(k => k.id !== kalaamId)
-          : [...pinnedKalaams, kalaams.find(k => k.id === kalaamId)].filter(Boolean);
-        
-        return prev.sort((a, b) => {
-          const aPinned = updatedPinned.some(p => p.id === a.id);
-          const bPinned = updatedPinned.some(p => p.id === b.id);
-          if (aPinned && !bPinned) return -1;
-          if (!aPinned && bPinned) return 1;
-          return 0;
-        });
-      });
+      // Pinned items sort first, so reload in the new order
+      await load(false, kalaams.length);
     } catch (error) {
       console.error('Error toggling pin:', error);
     }
   };
 
+  // The user's pins, top to bottom; special content above them can't move
+  const userPins = kalaams.filter(k => k.id >= 0 && pinnedIds.has(k.id));
+
+  const movePin = async (from: number, to: number) => {
+    const reordered = [...userPins];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    // Show the new order straight away; pins are contiguous after special content
+    const start = kalaams.indexOf(userPins[0]);
+    setKalaams(prev => [...prev.slice(0, start), ...reordered, ...prev.slice(start + reordered.length)]);
+    try {
+      await FavoritesService.reorderPins(reordered.map(k => k.id));
+    } catch (error) {
+      console.error('Error reordering pins:', error);
+      await load(false, kalaams.length);
+    }
+  };
+
   const remove = async (k: Kalaam) => {
-    await FavoritesService.removeFavorite(k.id);
-    setKalaams(prev => prev.filter(item => item.id !== k.id));
-    setTotalKalaams(prev => prev - 1);
+    try {
+      const undo = await FavoritesService.removeFavorites([k.id]);
+      setKalaams(prev => prev.filter(item => item.id !== k.id));
+      setTotalKalaams(prev => prev - 1);
+      setLastChange({ message: `Removed "${k.title}"`, undo });
+    } catch (error) {
+      console.error('Error removing favourite:', error);
+    }
   };
 
-  const handleLoadMore = () => {
-    if (hasMore && !nextPageLoading && lastVisibleDoc) {
-      load(lastVisibleDoc, true);
+  const updateQuery = (change: FavouritesQuery) => {
+    stopSelecting();
+    setQuery(prev => ({ ...prev, ...change }));
+  };
+
+  const startSelecting = (kalaamId?: number) => {
+    setLastChange(null);
+    setSelecting(true);
+    setSelected(new Set(kalaamId === undefined ? [] : [kalaamId]));
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  const toggleSelected = (kalaamId: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(kalaamId)) {
+        next.delete(kalaamId);
+      } else {
+        next.add(kalaamId);
+      }
+      return next;
+    });
+  };
+
+  // Selected ids in list order, so bulk pins keep the order shown
+  const selectedIds = kalaams.filter(k => selected.has(k.id)).map(k => k.id);
+
+  // Bulk changes run as one transaction each and can be undone from the snackbar
+  const showChange = async (undo: FavouritesUndo | null, message: string) => {
+    stopSelecting();
+    if (undo) {
+      setLastChange({ message, undo });
     }
+    await load(false, kalaams.length);
   };
 
+  const removeSelected = async () => {
+    try {
+      const undo = await FavoritesService.removeFavorites(selectedIds);
+      await showChange(undo, `Removed ${nohas(undo.kalaamIds.length)}`);
+    } catch (error) {
+      console.error('Error removing favourites:', error);
+    }
+  };
 
-  return (
-    <SafeAreaView style={[styles.container, { backgroundColor: t.background }]}>
-      <AppHeader />
-      <ScrollView style={{ flex: 1 }}>
-        <View style={styles.headerCard}>
-          <View style={[styles.headerBanner, { backgroundColor: accentColor }]}>
-            <Text style={[styles.headerTitle, { color: t.accentOnAccent }]}><MaterialCommunityIcons name="heart" size={18} color={t.accentOnAccent} /> Your favourites</Text>
-            <Text style={[styles.headerSubtitle, { color: t.accentOnAccent }]}>{totalKalaams} saved nohas</Text>
-          </View>
-        </View>
+  const pinSelected = async () => {
+    try {
+      const { result, undo } = await FavoritesService.pinKalaams(selectedIds);
+      if (result === 'limit_reached') {
+        Alert.alert(
+          'Pins full',
+          `You can pin up to ${FavoritesService.MAX_PINS} nohas. Unpin some or select fewer.`
+        );
+        return;
+      }
+      await showChange(undo, `Pinned ${nohas(selectedIds.length)}`);
+    } catch (error) {
+      console.error('Error pinning favourites:', error);
+    }
+  };
 
-        {loading ? (
-          <View style={styles.loadingInline}>
-            <ActivityIndicator size="small" color={accentColor} />
-            <Text style={[styles.loadingText, { color: t.textMuted }]}>Loading favourites...</Text>
-          </View>
-        ) : kalaams.length > 0 ? (
-          <View style={[styles.listCard, { backgroundColor: t.surface }]}>
-            {kalaams.map((k) => (
-              <View key={k.id} style={styles.itemRow}>
+  const unpinSelected = async () => {
+    try {
+      const undo = await FavoritesService.unpinKalaams(selectedIds);
+      await showChange(undo, `Unpinned ${nohas(undo.kalaamIds.length)}`);
+    } catch (error) {
+      console.error('Error unpinning favourites:', error);
+    }
+  };
+
+  const chooseMoveTarget = async () => {
+    try {
+      setPlaylists(await PlaylistService.getPlaylists());
+    } catch (error) {
+      console.error('Error loading playlists:', error);
+    }
+  };
+
+  const moveSelected = async (playlistId: number) => {
+    const target = playlists?.find(p => p.id === playlistId);
+    try {
+      const undo = await FavoritesService.moveToPlaylist(selectedIds, playlistId);
+      await showChange(undo, `Moved ${nohas(undo.kalaamIds.length)} to "${target?.name}"`);
+    } catch (error) {
+      console.error('Error moving favourites:', error);
+    }
+  };
+
+  const undoLastChange = async () => {
+    if (!lastChange) return;
+    setLastChange(null);
+    try {
+      await FavoritesService.undo(lastChange.undo);
+      await load(false, kalaams.length + lastChange.undo.kalaamIds.length);
+    } catch (error) {
+      console.error('Error undoing favourites change:', error);
+    }
+  };
+
+  const dismissUndo = useCallback(() => setLastChange(null), []);
+
+  // Dragging pins only makes sense with all of them in view
+  const filtered = Boolean(query.reciter || query.masaib);
+  const canReorder = !selecting && !filtered && userPins.length > 1;
+
+  const filterOptions: Record<Filter, PickerOption<string>[]> = {
+    sort: SORT_OPTIONS,
+    reciter: [{ label: 'All reciters', value: '' }, ...facets.reciters.map(r => ({ label: r, value: r }))],
+    masaib: [{ label: 'All masaib', value: '' }, ...facets.masaib.map(m => ({ label: m, value: m }))],
+  };
+
+  const chooseFilter = (value: string) => {
+    if (openFilter === 'sort') {
+      updateQuery({ sort: value as FavouritesSort });
+    } else if (openFilter) {
+      updateQuery({ [openFilter]: value || undefined });
+    }
+  };
+
+  const hasMore = kalaams.length < totalKalaams;
+
+  const handleLoadMore = () => {
+    if (hasMore && !nextPageLoading) {
+      loadMore();
+    }
+  };
+
+  const listHeader = (
+    <View style={styles.headerCard}>
+      <View style={[styles.headerBanner, { backgroundColor: accentColor }]}>
+        <Text style={[styles.headerTitle, { color: t.accentOnAccent }]}><MaterialCommunityIcons name="heart" size={18} color={t.accentOnAccent} /> Your favourites</Text>
+        <Text style={[styles.headerSubtitle, { color: t.accentOnAccent }]}>{totalKalaams} {filtered ? 'matching' : 'saved'} nohas</Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.playlistsLink, { backgroundColor: t.surface }]}
+        onPress={() => navigation.navigate('Home', { screen: 'Playlists' })}
+      >
+        <MaterialCommunityIcons name="playlist-music" size={20} color={accentColor} />
+        <Text style={[styles.playlistsLinkText, { color: t.textPrimary }]}>Playlists</Text>
+        <MaterialCommunityIcons name="chevron-right" size={20} color={t.textMuted} />
+      </TouchableOpacity>
+      <View style={[styles.toolbar, { backgroundColor: t.surface, borderTopColor: t.divider }]}>
+        {selecting ? (
+          <>
+            <Text style={[styles.toolbarText, { color: t.textPrimary }]}>{selected.size} selected</Text>
+            <TouchableOpacity style={styles.toolbarButton} onPress={stopSelecting}>
+              <Text style={[styles.toolbarButtonText, { color: accentColor }]}>Done</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            {(['sort', 'reciter', 'masaib'] as Filter[]).map(filter => {
+              const active = filter !== 'sort' && Boolean(query[filter]);
+              const label = filter === 'sort'
+                ? SORT_OPTIONS.find(o => o.value === query.sort)?.label
+                : query[filter] || (filter === 'reciter' ? 'Reciter' : 'Masaib');
+              return (
                 <TouchableOpacity
-                  style={{ flex: 1 }}
-                  onPress={() => navigation.navigate('Home' as never, { screen: 'Kalaam', params: { id: k.id } } as never)}
+                  key={filter}
+                  style={[styles.filterChip, { borderColor: active ? accentColor : t.border }]}
+                  onPress={() => setOpenFilter(filter)}
                 >
-                  <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
-                    {k.id < 0 && (
-                      <MaterialCommunityIcons name="star" size={16} color={accentColor} />
-                    )}
-                    <Text style={[styles.itemTitle, { color: t.textPrimary, flex: 1 }]}>{k.title}</Text>
-                  </View>
-                  <View style={styles.metaRow}>
-                    {k.reciter ? (
-                      <View style={styles.metaChip}>
-                        <MaterialCommunityIcons name="account-music" size={14} color={t.textMuted} />
-                        <Text style={[styles.metaText, { color: t.textMuted }]} numberOfLines={1} ellipsizeMode="tail">{k.reciter}</Text>
-                      </View>
-                    ) : null}
-                    {k.poet ? (
-                      <View style={styles.metaChip}>
-                        <MaterialCommunityIcons name="feather" size={14} color={t.textMuted} />
-                        <Text style={[styles.metaText, { color: t.textMuted }]} numberOfLines={1} ellipsizeMode="tail">{k.poet}</Text>
-                      </View>
-                    ) : null}
-                  </View>
+                  <MaterialCommunityIcons
+                    name={filter === 'sort' ? 'sort' : 'filter-variant'}
+                    size={14}
+                    color={active ? accentColor : t.textMuted}
+                  />
+                  <Text style={[styles.filterChipText, { color: active ? accentColor : t.textPrimary }]} numberOfLines={1}>
+                    {label}
+                  </Text>
                 </TouchableOpacity>
-                {/* Action buttons for all items */}
-                <View style={styles.actionButtons}>
-                  {k.id >= 0 ? (
-                    // Regular items - functional buttons
-                    <>
-                      <TouchableOpacity 
-                        onPress={() => togglePin(k.id)}
-                        style={styles.pinButton}
-                      >
-                        <MaterialCommunityIcons 
-                          name={pinStates[k.id] ? "pin" : "pin-outline"} 
-                          size={20} 
-                          color={pinStates[k.id] ? accentColor : t.textMuted} 
-                        />
-                      </TouchableOpacity>
-                      <TouchableOpacity 
-                        onPress={() => remove(k)}
-                        style={styles.removeButton}
-                      >
-                        <MaterialCommunityIcons name="minus-circle" size={20} color={t.danger} />
-                      </TouchableOpacity>
-                    </>
-                  ) : (
-                    // Special content - visual-only buttons
-                    <>
-                      <View style={styles.pinButton}>
-                        <MaterialCommunityIcons 
-                          name="pin" 
-                          size={20} 
-                          color={accentColor} 
-                        />
-                      </View>
-                      <View style={styles.removeButton}>
-                        <MaterialCommunityIcons name="heart" size={20} color={accentColor} />
-                      </View>
-                    </>
-                  )}
-                </View>
+              );
+            })}
+            <TouchableOpacity style={styles.toolbarButton} onPress={() => startSelecting()}>
+              <Text style={[styles.toolbarButtonText, { color: accentColor }]}>Select</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderFavourite: ListRenderItem<Kalaam> = ({ item: k, index }) => {
+    const row = (
+      <>
+        <TouchableOpacity
+          style={{ flex: 1 }}
+          onPress={() =>
+            selecting
+              ? k.id >= 0 && toggleSelected(k.id)
+              : navigation.navigate('Home', { screen: 'Kalaam', params: { id: k.id } })
+          }
+          onLongPress={() => !selecting && k.id >= 0 && startSelecting(k.id)}
+        >
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
+            {k.id < 0 && (
+              <MaterialCommunityIcons name="star" size={16} color={accentColor} />
+            )}
+            <Text style={[styles.itemTitle, { color: k.deleted ? t.textMuted : t.textPrimary, flex: 1 }]}>{k.title}</Text>
+          </View>
+          <View style={styles.metaRow}>
+            {k.deleted ? (
+              <View style={styles.metaChip}>
+                <MaterialCommunityIcons name="archive-off-outline" size={14} color={t.danger} />
+                <Text style={[styles.metaText, { color: t.danger }]}>Removed from catalogue</Text>
               </View>
-            ))}
-            {nextPageLoading && (
-              <View style={styles.loadingMore}>
-                <ActivityIndicator size="small" color={accentColor} />
-                <Text style={[styles.loadingText, { color: t.textMuted }]}>Loading more...</Text>
+            ) : null}
+            {k.reciter ? (
+              <View style={styles.metaChip}>
+                <MaterialCommunityIcons name="account-music" size={14} color={t.textMuted} />
+                <Text style={[styles.metaText, { color: t.textMuted }]} numberOfLines={1} ellipsizeMode="tail">{k.reciter}</Text>
               </View>
-            )}
+            ) : null}
+            {k.poet ? (
+              <View style={styles.metaChip}>
+                <MaterialCommunityIcons name="feather" size={14} color={t.textMuted} />
+                <Text style={[styles.metaText, { color: t.textMuted }]} numberOfLines={1} ellipsizeMode="tail">{k.poet}</Text>
+              </View>
+            ) : null}
           </View>
-        ) : (
-          <View style={styles.loadingInline}><Text style={[styles.metaText, { color: t.textMuted }]}>No favourites yet.</Text></View>
-        )}
+        </TouchableOpacity>
+        {/* Action buttons for all items */}
+        <View style={styles.actionButtons}>
+          {selecting && k.id >= 0 ? (
+            <TouchableOpacity onPress={() => toggleSelected(k.id)} style={styles.pinButton}>
+              <MaterialCommunityIcons
+                name={selected.has(k.id) ? 'checkbox-marked' : 'checkbox-blank-outline'}
+                size={22}
+                color={selected.has(k.id) ? accentColor : t.textMuted}
+              />
+            </TouchableOpacity>
+          ) : k.id >= 0 ? (
+            // Regular items - functional buttons
+            <>
+              <TouchableOpacity 
+                onPress={() => togglePin(k.id)}
+                style={styles.pinButton}
+              >
+                <MaterialCommunityIcons 
+                  name={pinnedIds.has(k.id) ? "pin" : "pin-outline"} 
+                  size={20} 
+                  color={pinnedIds.has(k.id) ? accentColor : t.textMuted} 
+                />
+              </TouchableOpacity>
+              <TouchableOpacity 
+                onPress={() => remove(k)}
+                style={styles.removeButton}
+              >
+                <MaterialCommunityIcons name="minus-circle" size={20} color={t.danger} />
+              </TouchableOpacity>
+            </>
+          ) : (
+            // Special content - visual-only buttons
+            <>
+              <View style={styles.pinButton}>
+                <MaterialCommunityIcons 
+                  name="pin" 
+                  size={20} 
+                  color={accentColor} 
+                />
+              </View>
+              <View style={styles.removeButton}>
+                <MaterialCommunityIcons name="heart" size={20} color={accentColor} />
+              </View>
+            </>
+          )}
+        </View>
+      </>
+    );
+    const rowStyle = [
+      styles.itemRow,
+      { backgroundColor: t.surface },
+      index === 0 && styles.firstRow,
+      index === kalaams.length - 1 && styles.lastRow,
+    ];
+    const pinIndex = userPins.indexOf(k);
+    return pinIndex >= 0 && canReorder ? (
+      <DraggableRow
+        style={rowStyle}
+        index={pinIndex}
+        count={userPins.length}
+        handleColor={t.textMuted}
+        onMove={movePin}
+        onDragChange={setDraggingPin}
+      >
+        {row}
+      </DraggableRow>
+    ) : (
+      <View style={rowStyle}>{row}</View>
+    );
+  };
 
-        {hasMore && kalaams.length > 0 && (
-          <View style={styles.loadMoreContainer}>
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: t.background }]}>
+      <AppHeader />
+      <FlatList
+        style={{ flex: 1 }}
+        data={loading ? [] : kalaams}
+        keyExtractor={k => k.id.toString()}
+        renderItem={renderFavourite}
+        ListHeaderComponent={listHeader}
+        ListEmptyComponent={
+          loading ? (
+            <View style={styles.loadingInline}>
+              <ActivityIndicator size="small" color={accentColor} />
+              <Text style={[styles.loadingText, { color: t.textMuted }]}>Loading favourites...</Text>
+            </View>
+          ) : (
+            <View style={styles.loadingInline}>
+              <Text style={[styles.metaText, { color: t.textMuted }]}>
+                {filtered ? 'No favourites match these filters.' : 'No favourites yet.'}
+              </Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          nextPageLoading ? (
+            <View style={styles.loadingMore}>
+              <ActivityIndicator size="small" color={accentColor} />
+              <Text style={[styles.loadingText, { color: t.textMuted }]}>Loading more...</Text>
+            </View>
+          ) : null
+        }
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        // A pin being dragged keeps the gesture until it's dropped
+        scrollEnabled={!draggingPin}
+      />
+
+      {selecting && (
+        <View style={[styles.bulkBar, { backgroundColor: t.surface, borderTopColor: t.divider }]}>
+          {[
+            { icon: 'heart-off-outline', label: 'Remove', onPress: removeSelected },
+            { icon: 'pin-outline', label: 'Pin', onPress: pinSelected },
+            { icon: 'pin-off-outline', label: 'Unpin', onPress: unpinSelected },
+            { icon: 'playlist-plus', label: 'Move', onPress: chooseMoveTarget },
+          ].map(action => (
             <TouchableOpacity
-              style={[styles.loadMoreButton, { backgroundColor: accentColor }]}
-              onPress={handleLoadMore}
-              disabled={nextPageLoading}
+              key={action.label}
+              style={[styles.bulkButton, { opacity: selectedIds.length ? 1 : 0.5 }]}
+              onPress={action.onPress}
+              disabled={selectedIds.length === 0}
             >
-              {nextPageLoading ? (
-                <ActivityIndicator size="small" color={t.accentOnAccent} />
-              ) : (
-                <Text style={[styles.loadMoreText, { color: t.accentOnAccent }]}>
-                  Load More
-                </Text>
-              )}
+              <MaterialCommunityIcons name={action.icon} size={22} color={accentColor} />
+              <Text style={[styles.bulkButtonText, { color: t.textPrimary }]}>{action.label}</Text>
             </TouchableOpacity>
-          </View>
-        )}
-      </ScrollView>
+          ))}
+        </View>
+      )}
+
+      <OptionPickerModal
+        visible={openFilter !== null}
+        title={openFilter === 'sort' ? 'Sort by' : openFilter === 'reciter' ? 'Filter by reciter' : 'Filter by masaib'}
+        options={openFilter ? filterOptions[openFilter] : []}
+        selected={openFilter === 'sort' ? query.sort : openFilter ? query[openFilter] ?? '' : undefined}
+        onSelect={chooseFilter}
+        onClose={() => setOpenFilter(null)}
+      />
+      <OptionPickerModal
+        visible={playlists !== null}
+        title={`Move ${nohas(selectedIds.length)} to`}
+        options={(playlists ?? []).map(p => ({ label: p.name, value: p.id }))}
+        emptyText="No playlists yet. Create one from Playlists."
+        onSelect={moveSelected}
+        onClose={() => setPlaylists(null)}
+      />
+      <UndoSnackbar message={lastChange?.message ?? null} onUndo={undoLastChange} onDismiss={dismissUndo} />
     </SafeAreaView>
   );
 }
@@ -274,17 +545,13 @@ const styles = StyleSheet.create({
   headerSubtitle: { color: '#d1fae5', fontSize: 13, marginTop: 4 },
   loadingInline: { padding: 16, alignItems: 'center' },
   loadingText: { color: '#6b7280', marginTop: 4 },
-  listCard: { backgroundColor: '#ffffff', borderRadius: 12, marginHorizontal: 16, marginBottom: 16, elevation: 2 },
-  itemRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: 16, paddingVertical: 12, borderBottomColor: '#f3f4f6', borderBottomWidth: 1 },
+  itemRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginHorizontal: 16, paddingHorizontal: 16, paddingVertical: 12, backgroundColor: '#ffffff', borderBottomColor: '#f3f4f6', borderBottomWidth: 1 },
+  firstRow: { borderTopLeftRadius: 12, borderTopRightRadius: 12 },
+  lastRow: { borderBottomLeftRadius: 12, borderBottomRightRadius: 12, borderBottomWidth: 0, marginBottom: 16 },
   itemTitle: { fontSize: 16, fontWeight: '600', color: '#111827', marginBottom: 4 },
   metaRow: { flexDirection: 'row', gap: 12 },
   metaChip: { flexDirection: 'row', alignItems: 'center', gap: 4 },
   metaText: { fontSize: 12, color: '#6b7280', marginLeft: 4 },
-  pagination: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 16, paddingVertical: 12 },
-  pageButton: { paddingHorizontal: 16, paddingVertical: 8, borderRadius: 8 },
-  pageButtonDisabled: { backgroundColor: '#9ca3af' },
-  pageButtonText: { fontWeight: '600' },
-  pageIndicator: { marginHorizontal: 12, color: '#6b7280' },
   removeButton: {
     padding: 4,
     borderRadius: 12,
@@ -298,31 +565,82 @@ const styles = StyleSheet.create({
     padding: 16,
     gap: 8,
   },
-  loadMoreContainer: {
+
+  // Action buttons
+  actionButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  pinButton: {
+    padding: 4,
+  },
+
+  playlistsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
     paddingHorizontal: 16,
     paddingVertical: 12,
+  },
+  playlistsLinkText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+
+  // Sort, filter and select
+  toolbar: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
     alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
   },
-  loadMoreButton: {
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-    minWidth: 120,
+  toolbarText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  toolbarButton: {
+    marginLeft: 'auto',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  toolbarButtonText: {
+    fontWeight: '700',
+  },
+  filterChip: {
+    flexDirection: 'row',
     alignItems: 'center',
+    gap: 4,
+    maxWidth: 130,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
   },
-  loadMoreText: {
-    color: '#ffffff',
+  filterChipText: {
+    fontSize: 12,
     fontWeight: '600',
-    fontSize: 16,
   },
 
-  // Action buttons
-  actionButtons: {
+  // Bulk actions for the selection
+  bulkBar: {
     flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+  },
+  bulkButton: {
     alignItems: 'center',
-    gap: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
   },
-  pinButton: {
-    padding: 4,
+  bulkButtonText: {
+    fontSize: 12,
+    marginTop: 2,
   },
 });
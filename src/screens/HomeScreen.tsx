@@ -10,24 +10,30 @@ import {
   Dimensions,
   Platform,
   Keyboard,
+  ScrollView,
 } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import {
   SafeAreaView,
   useSafeAreaInsets,
 } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useIsFocused } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 
 import AppHeader from '../components/AppHeader';
 import { useThemeTokens, useSettings } from '../context/SettingsContext';
 import database from '../database/Database';
+import SearchHistoryService from '../services/SearchHistoryService';
 import {
   RootStackParamList,
+  TabParamList,
   MasaibGroup,
   PoetGroup,
   ReciterGroup,
+  RecentKalaam,
+  SavedSearch,
 } from '../types';
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Home'>;
@@ -39,6 +45,9 @@ const SLIDES = [
   { key: 'reciter', icon: 'account-music', label: 'Reciter' },
 ] as const;
 
+// Kalaams shown in the "Recently added" strip
+const RECENT_STRIP_LIMIT = 10;
+
 const { width: SCREEN_W } = Dimensions.get('window');
 // Animated FlatList
 const AFlatList = Animated.createAnimatedComponent(
@@ -134,6 +143,9 @@ export default function HomeScreen() {
     null,
   );
   const [initLoading, setInitLoading] = useState(true);
+  const [recentKalaams, setRecentKalaams] = useState<RecentKalaam[]>([]);
+  const [pinnedSearches, setPinnedSearches] = useState<SavedSearch[]>([]);
+  const isFocused = useIsFocused();
 
   // Swipe gesture state
   const tabAnimation = useRef(new Animated.Value(0)).current;
@@ -210,6 +222,18 @@ export default function HomeScreen() {
     })();
   }, []);
 
+  // Refresh on focus, so a sync while the app was open shows up
+  useEffect(() => {
+    if (!isFocused || initLoading) return;
+    database
+      .getRecentlyAdded(RECENT_STRIP_LIMIT)
+      .then(setRecentKalaams)
+      .catch(e => console.error('Recently added load failed', e));
+    SearchHistoryService.getSavedSearches()
+      .then(searches => setPinnedSearches(searches.filter(s => s.pinned)))
+      .catch(e => console.error('Saved searches load failed', e));
+  }, [isFocused, initLoading]);
+
   const items = useMemo(() => {
     if (browseCategory === 'masaib') return masaibGroups ?? [];
     if (browseCategory === 'poet') return poetGroups ?? [];
@@ -387,6 +411,70 @@ export default function HomeScreen() {
     <SafeAreaView style={[styles.container, { backgroundColor: t.background }]} edges={['top']}>
       <AppHeader />
 
+      {pinnedSearches.length > 0 && !searchOpen && (
+        <View style={styles.recentSection}>
+          <View style={styles.recentHeader}>
+            <Text style={[styles.recentTitle, { color: t.textPrimary }]}>Saved searches</Text>
+          </View>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.recentList}
+          >
+            {pinnedSearches.map(search => (
+              <TouchableOpacity
+                key={search.id}
+                activeOpacity={0.8}
+                style={[styles.savedSearchChip, { backgroundColor: t.surface, borderColor: t.border }]}
+                onPress={() =>
+                  navigation
+                    .getParent<BottomTabNavigationProp<TabParamList>>()
+                    ?.navigate('Search', { savedSearchId: search.id })
+                }
+              >
+                <MaterialCommunityIcons name="bookmark" size={16} color={accentColor} />
+                <Text style={[styles.recentCardTitle, { color: t.textPrimary, marginBottom: 0 }]} numberOfLines={1}>
+                  {search.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      {recentKalaams.length > 0 && !searchOpen && (
+        <View style={styles.recentSection}>
+          <View style={styles.recentHeader}>
+            <Text style={[styles.recentTitle, { color: t.textPrimary }]}>Recently added</Text>
+            <TouchableOpacity onPress={() => navigation.navigate('RecentlyAdded')}>
+              <Text style={[styles.recentSeeAll, { color: accentColor }]}>See all</Text>
+            </TouchableOpacity>
+          </View>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.recentList}
+          >
+            {recentKalaams.map(k => (
+              <TouchableOpacity
+                key={k.id}
+                activeOpacity={0.8}
+                style={[styles.recentCard, { backgroundColor: t.surface, borderColor: t.border }]}
+                onPress={() => navigation.navigate('Kalaam', { id: k.id })}
+              >
+                <Text style={[styles.recentCardTitle, { color: t.textPrimary }]} numberOfLines={2}>
+                  {k.title}
+                </Text>
+                <Text style={[styles.recentCardMeta, { color: t.textMuted }]} numberOfLines={1}>
+                  {k.change_type === 'added' ? 'New' : 'Updated'}
+                  {k.reciter ? ` · ${k.reciter}` : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
       <View style={styles.contentWrap}>
         {/* Animated, absolute "Browse by" that slides up and hides */}
         <Animated.View
@@ -591,6 +679,37 @@ const styles = StyleSheet.create({
   centerFill: { flex: 1, alignItems: 'center', justifyContent: 'center' },
   loadingText: { marginTop: 14, fontSize: 16 },
 
+  // "Recently added" strip above the browse list
+  recentSection: { paddingTop: 12 },
+  recentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  recentTitle: { fontSize: 16, fontWeight: '700' },
+  recentSeeAll: { fontSize: 14, fontWeight: '600' },
+  recentList: { paddingHorizontal: 16, gap: 10 },
+  recentCard: {
+    width: 180,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  recentCardTitle: { fontSize: 14, fontWeight: '600', marginBottom: 4 },
+  recentCardMeta: { fontSize: 12 },
+  savedSearchChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: 200,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+
   // container for list + parallax header
   contentWrap: { flex: 1, position: 'relative' },
 
@@ -2,7 +2,7 @@ import {
   SafeAreaView,
   useSafeAreaInsets,
 } from 'react-native-safe-area-context';
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -12,20 +12,34 @@ import {
   TouchableOpacity,
   Dimensions,
   Share,
+  StyleProp,
+  TextStyle,
 } from 'react-native';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import { RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import YoutubePlayer from 'react-native-youtube-iframe';
 import { WebView } from 'react-native-webview';
 import { useSettings, useThemeTokens } from '../context/SettingsContext';
 
 import database from '../database/Database';
+import { lyricLines } from '../database/SearchSnippet';
 import FavoritesService from '../services/FavoritesService';
-import { RootStackParamList, Kalaam } from '../types';
+import PlaylistService from '../services/PlaylistService';
+import { RootStackParamList, Kalaam, LyricsLanguage } from '../types';
 import AppHeader from '../components/AppHeader';
+import AddToPlaylistModal from '../components/AddToPlaylistModal';
 
 type KalaamRoute = RouteProp<RootStackParamList, 'Kalaam'>;
+type Nav = StackNavigationProp<RootStackParamList>;
+
+// The playlist being played through, and where this kalaam sits in it
+interface PlayThrough {
+  name: string;
+  ids: number[];
+  index: number;
+}
 
 function extractYouTubeVideoId(url?: string): string | null {
   if (!url) return null;
@@ -60,15 +74,17 @@ export default function KalaamScreen() {
   const insets = useSafeAreaInsets();
   const t = useThemeTokens();
   const { accentColor } = useSettings();
-  const navigation = useNavigation();
+  const navigation = useNavigation<Nav>();
 
   const route = useRoute<KalaamRoute>();
-  const { id } = route.params;
+  const { id, playlistId, line } = route.params;
 
   const [kalaam, setKalaam] = useState<Kalaam | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFavourite, setIsFavourite] = useState(false);
+  const [playlistModalVisible, setPlaylistModalVisible] = useState(false);
+  const [playThrough, setPlayThrough] = useState<PlayThrough | null>(null);
   const screenWidth = Dimensions.get('window').width;
   const { 
     engFont, 
@@ -79,18 +95,102 @@ export default function KalaamScreen() {
     setDefaultLanguage
   } = useSettings();
 
-  // Current language selection (derived from settings)
-  const language = defaultLanguage;
+  // Current language selection (derived from settings), unless a search
+  // opened a line in the other language
+  const [languageOverride, setLanguageOverride] = useState<LyricsLanguage | null>(line?.language ?? null);
+  const language = languageOverride ?? defaultLanguage;
+
+  const chooseLanguage = (choice: LyricsLanguage) => {
+    setLanguageOverride(null);
+    setDefaultLanguage(choice);
+  };
+
+  // Scroll to the search's line once both it and the lyrics card are laid out
+  const scrollRef = useRef<ScrollView>(null);
+  const lineLayout = useRef<{ cardY: number | null; lineY: number | null; done: boolean }>({
+    cardY: null,
+    lineY: null,
+    done: false,
+  });
+
+  useEffect(() => {
+    setLanguageOverride(line?.language ?? null);
+    lineLayout.current = { cardY: null, lineY: null, done: false };
+  }, [id, line]);
+
+  const scrollToLine = (layout: { cardY?: number; lineY?: number }) => {
+    const state = lineLayout.current;
+    state.cardY = layout.cardY ?? state.cardY;
+    state.lineY = layout.lineY ?? state.lineY;
+    if (!state.done && state.cardY !== null && state.lineY !== null) {
+      state.done = true;
+      scrollRef.current?.scrollTo({ y: Math.max(0, state.cardY + state.lineY - 120), animated: true });
+    }
+  };
+
+  // Lyrics as one block, or line by line with the search's line marked
+  const renderLyrics = (lyrics: string, lyricsLanguage: LyricsLanguage, textStyle: StyleProp<TextStyle>) => {
+    if (!line || line.language !== lyricsLanguage) {
+      return <Text style={textStyle}>{lyrics}</Text>;
+    }
+    return (
+      <View>
+        {lyricLines(lyrics).map((text, index) => (
+          <Text
+            key={index}
+            style={[textStyle, index === line.index && [styles.matchedLine, { backgroundColor: t.divider }]]}
+            onLayout={index === line.index ? e => scrollToLine({ lineY: e.nativeEvent.layout.y }) : undefined}
+          >
+            {text || ' '}
+          </Text>
+        ))}
+      </View>
+    );
+  };
 
   useEffect(() => {
     load();
   }, [id]);
 
+  const loadPlayThrough = useCallback(async () => {
+    if (playlistId === undefined) {
+      setPlayThrough(null);
+      return;
+    }
+    try {
+      await database.init();
+      const [playlist, items] = await Promise.all([
+        PlaylistService.getPlaylist(playlistId),
+        PlaylistService.getPlaylistKalaams(playlistId),
+      ]);
+      const ids = items.map(k => k.id);
+      // Removed from the playlist since it was opened: nothing to step through
+      setPlayThrough(playlist && ids.includes(id) ? { name: playlist.name, ids, index: ids.indexOf(id) } : null);
+    } catch (e) {
+      console.error('Failed to load playlist', e);
+      setPlayThrough(null);
+    }
+  }, [id, playlistId]);
+
+  useEffect(() => {
+    loadPlayThrough();
+  }, [loadPlayThrough]);
+
+  // Step through the playlist in place, so Back returns to where it started
+  const stepPlaylist = (offset: number) => {
+    if (!playThrough) return;
+    const nextId = playThrough.ids[playThrough.index + offset];
+    if (nextId !== undefined) {
+      navigation.replace('Kalaam', { id: nextId, playlistId });
+    }
+  };
+
   const load = async () => {
     try {
       setIsLoading(true);
       await database.init();
-      const data = await database.getKalaamById(id);
+      // Favourites and playlists can lead to removed kalaams; show them flagged
+      const data = await database.getKalaamById(id, { includeDeleted: true });
       setKalaam(data);
       const fav = await FavoritesService.isFavorite(id);
       setIsFavourite(fav);
@@ -183,6 +283,7 @@ export default function KalaamScreen() {
     <SafeAreaView style={[styles.container, { backgroundColor: t.background }]} edges={['top']}>
       <AppHeader />
       <ScrollView
+        ref={scrollRef}
         style={styles.scrollView}
         contentContainerStyle={{
           alignItems: 'center',
@@ -191,6 +292,14 @@ export default function KalaamScreen() {
       >
         <View style={[styles.card, styles.maxWidth, { backgroundColor: t.surface }]}>
           <Text style={[styles.title, { color: t.textPrimary }]}>{kalaam.title}</Text>
+          {kalaam.deleted && (
+            <View style={[styles.removedNotice, { backgroundColor: t.divider }]}>
+              <MaterialCommunityIcons name="archive-off-outline" size={16} color={t.danger} />
+              <Text style={[styles.removedNoticeText, { color: t.textSecondary }]}>
+                Removed from the catalogue. Your saved copy is shown below.
+              </Text>
+            </View>
+          )}
           {/* Hide favorite button for special content (Hadees e Kisa, Ziyarat Ashura) */}
           {kalaam.id >= 0 && (
             <TouchableOpacity style={[styles.favButton, { backgroundColor: t.divider }]} onPress={toggleFavourite}>
@@ -204,8 +313,42 @@ export default function KalaamScreen() {
               </Text>
             </TouchableOpacity>
           )}
+          <TouchableOpacity
+            style={[styles.favButton, { backgroundColor: t.divider }]}
+            onPress={() => setPlaylistModalVisible(true)}
+          >
+            <MaterialCommunityIcons name="playlist-plus" size={20} color={t.textMuted} />
+            <Text style={[styles.favButtonText, { color: t.textSecondary }]}>Add to Playlist</Text>
+          </TouchableOpacity>
         </View>
 
+        {playThrough && (
+          <View style={[styles.card, styles.maxWidth, styles.playThrough, { backgroundColor: t.surface }]}>
+            <TouchableOpacity
+              onPress={() => stepPlaylist(-1)}
+              disabled={playThrough.index === 0}
+              style={{ opacity: playThrough.index === 0 ? 0.4 : 1 }}
+            >
+              <MaterialCommunityIcons name="skip-previous" size={26} color={accentColor} />
+            </TouchableOpacity>
+            <View style={styles.playThroughInfo}>
+              <Text style={[styles.playThroughName, { color: t.textPrimary }]} numberOfLines={1}>
+                {playThrough.name}
+              </Text>
+              <Text style={[styles.playThroughPosition, { color: t.textMuted }]}>
+                {playThrough.index + 1} of {playThrough.ids.length}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => stepPlaylist(1)}
+              disabled={playThrough.index === playThrough.ids.length - 1}
+              style={{ opacity: playThrough.index === playThrough.ids.length - 1 ? 0.4 : 1 }}
+            >
+              <MaterialCommunityIcons name="skip-next" size={26} color={accentColor} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Hide metadata for special content (Hadees e Kisa, Ziyarat Ashura) */}
         {kalaam.id >= 0 && (
           <View style={[styles.card, styles.maxWidth, { backgroundColor: t.surface }]}>
@@ -377,7 +520,7 @@ export default function KalaamScreen() {
                   styles.languageButton,
                   language === 'english' && { backgroundColor: accentColor },
                 ]}
-                onPress={() => setDefaultLanguage('english')}
+                onPress={() => chooseLanguage('english')}
               >
                 <Text
                   style={[
@@ -394,7 +537,7 @@ export default function KalaamScreen() {
                   styles.languageButton,
                   language === 'urdu' && { backgroundColor: accentColor },
                 ]}
-                onPress={() => setDefaultLanguage('urdu')}
+                onPress={() => chooseLanguage('urdu')}
               >
                 <Text
                   style={[
@@ -410,38 +553,33 @@ export default function KalaamScreen() {
           </View>
         ) : null}
 
-        <View style={[styles.card, styles.maxWidth, { backgroundColor: t.surface }]}>
+        <View
+          style={[styles.card, styles.maxWidth, { backgroundColor: t.surface }]}
+          onLayout={e => scrollToLine({ cardY: e.nativeEvent.layout.y })}
+        >
           {language === 'english' && kalaam.lyrics_eng ? (
-            <Text
-              style={[
-                styles.lyricsText,
-                styles.centeredText,
-                { 
-                  fontSize: 16 * engFontScale, 
-                  lineHeight: 26 * engFontScale,
-                  fontFamily: engFont === 'System' ? undefined : engFont,
-                  color: t.textPrimary,
-                },
-              ]}
-            >
-              {kalaam.lyrics_eng}
-            </Text>
-          ) : defaultLanguage === 'urdu' && kalaam.lyrics_urdu ? (
-            <Text
-              style={[
-                styles.lyricsText,
-                styles.urduText,
-                styles.centeredText,
-                { 
-                  fontSize: 16 * urduFontScale, 
-                  lineHeight: 26 * urduFontScale,
-                  fontFamily: urduFont === 'System' ? undefined : urduFont,
-                  color: t.textPrimary,
-                },
-              ]}
-            >
-              {kalaam.lyrics_urdu}
-            </Text>
+            renderLyrics(kalaam.lyrics_eng, 'english', [
+              styles.lyricsText,
+              styles.centeredText,
+              { 
+                fontSize: 16 * engFontScale, 
+                lineHeight: 26 * engFontScale,
+                fontFamily: engFont === 'System' ? undefined : engFont,
+                color: t.textPrimary,
+              },
+            ])
+          ) : language === 'urdu' && kalaam.lyrics_urdu ? (
+            renderLyrics(kalaam.lyrics_urdu, 'urdu', [
+              styles.lyricsText,
+              styles.urduText,
+              styles.centeredText,
+              { 
+                fontSize: 16 * urduFontScale, 
+                lineHeight: 26 * urduFontScale,
+                fontFamily: urduFont === 'System' ? undefined : urduFont,
+                color: t.textPrimary,
+              },
+            ])
           ) : (
             <Text style={[styles.noLyricsText, { color: t.textMuted }]}>
               {language === 'english'
@@ -467,6 +605,14 @@ export default function KalaamScreen() {
           </TouchableOpacity>
         </View>
       </ScrollView>
+      <AddToPlaylistModal
+        visible={playlistModalVisible}
+        kalaamId={kalaam.id}
+        onClose={() => {
+          setPlaylistModalVisible(false);
+          loadPlayThrough();
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -500,6 +646,24 @@ const styles = StyleSheet.create({
     marginTop: 8,
   },
   favButtonText: { marginLeft: 6, color: '#374151', fontWeight: '600' },
+  playThrough: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
+  playThroughInfo: { flex: 1, alignItems: 'center', marginHorizontal: 12 },
+  playThroughName: { fontSize: 15, fontWeight: '700' },
+  playThroughPosition: { fontSize: 12, marginTop: 2 },
+  removedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 12,
+  },
+  removedNoticeText: { flex: 1, fontSize: 13 },
   metaColumn: { gap: 8 },
   metaRowLine: {
     flexDirection: 'row',
@@ -543,6 +707,7 @@ const styles = StyleSheet.create({
   languageButtonText: { fontSize: 13, fontWeight: '700', color: '#6b7280' },
   languageButtonTextActive: { color: '#ffffff' },
   lyricsText: { fontSize: 16, lineHeight: 26, color: '#111827' },
+  matchedLine: { borderRadius: 6 },
   centeredText: { textAlign: 'center' },
   urduText: { textAlign: 'right', writingDirection: 'rtl' },
   noLyricsText: {
@@ -0,0 +1,243 @@
+// PlaylistScreen.tsx - One playlist: play through, rename, reorder, remove
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useIsFocused, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import AppHeader from '../components/AppHeader';
+import DraggableRow from '../components/DraggableRow';
+import { useThemeTokens, useSettings } from '../context/SettingsContext';
+import database from '../database/Database';
+import PlaylistService from '../services/PlaylistService';
+import { RootStackParamList, Kalaam, Playlist } from '../types';
+
+type Nav = StackNavigationProp<RootStackParamList>;
+type PlaylistRoute = RouteProp<RootStackParamList, 'Playlist'>;
+
+export default function PlaylistScreen() {
+  const t = useThemeTokens();
+  const { accentColor } = useSettings();
+  const navigation = useNavigation<Nav>();
+  const isFocused = useIsFocused();
+  const { playlistId } = useRoute<PlaylistRoute>().params;
+  const [playlist, setPlaylist] = useState<Playlist | null>(null);
+  const [kalaams, setKalaams] = useState<Kalaam[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      await database.init();
+      const [found, items] = await Promise.all([
+        PlaylistService.getPlaylist(playlistId),
+        PlaylistService.getPlaylistKalaams(playlistId),
+      ]);
+      setPlaylist(found);
+      setKalaams(items);
+    } catch (error) {
+      console.error('Failed to load playlist:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [playlistId]);
+
+  useEffect(() => {
+    if (isFocused) {
+      load();
+    }
+  }, [isFocused, load]);
+
+  const play = (kalaamId: number) => {
+    navigation.navigate('Kalaam', { id: kalaamId, playlistId });
+  };
+
+  const startRename = () => {
+    setName(playlist?.name ?? '');
+    setRenaming(true);
+  };
+
+  const saveRename = async () => {
+    try {
+      await PlaylistService.renamePlaylist(playlistId, name);
+      setRenaming(false);
+      setPlaylist(prev => (prev ? { ...prev, name: name.trim() } : prev));
+    } catch (error) {
+      Alert.alert('Could not rename playlist', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      'Delete playlist?',
+      `"${playlist?.name}" will be deleted. The nohas in it stay in the app.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await PlaylistService.deletePlaylist(playlistId);
+            navigation.goBack();
+          },
+        },
+      ]
+    );
+  };
+
+  const move = async (from: number, to: number) => {
+    const reordered = [...kalaams];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    setKalaams(reordered);
+    try {
+      await PlaylistService.reorderPlaylist(playlistId, reordered.map(k => k.id));
+    } catch (error) {
+      console.error('Error reordering playlist:', error);
+      await load();
+    }
+  };
+
+  const remove = async (k: Kalaam) => {
+    await PlaylistService.removeKalaam(playlistId, k.id);
+    setKalaams(prev => prev.filter(item => item.id !== k.id));
+  };
+
+  if (!loading && !playlist) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: t.background }]} edges={['top']}>
+        <AppHeader />
+        <View style={styles.loadingInline}>
+          <Text style={[styles.metaText, { color: t.textMuted }]}>This playlist no longer exists.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: t.background }]} edges={['top']}>
+      <AppHeader />
+      <ScrollView style={{ flex: 1 }} keyboardShouldPersistTaps="handled">
+        <View style={[styles.headerCard, { backgroundColor: t.surface }]}>
+          <View style={[styles.headerBanner, { backgroundColor: accentColor }]}>
+            {renaming ? (
+              <View style={styles.renameRow}>
+                <TextInput
+                  style={[styles.renameInput, { color: t.textPrimary, backgroundColor: t.surface }]}
+                  value={name}
+                  onChangeText={setName}
+                  onSubmitEditing={saveRename}
+                  autoFocus
+                  returnKeyType="done"
+                />
+                <TouchableOpacity onPress={saveRename} disabled={!name.trim()}>
+                  <MaterialCommunityIcons name="check" size={22} color={t.accentOnAccent} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setRenaming(false)}>
+                  <MaterialCommunityIcons name="close" size={22} color={t.accentOnAccent} />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <Text style={[styles.headerTitle, { color: t.accentOnAccent }]}>
+                <MaterialCommunityIcons name="playlist-music" size={18} color={t.accentOnAccent} /> {playlist?.name}
+              </Text>
+            )}
+            <Text style={[styles.headerSubtitle, { color: t.accentOnAccent }]}>
+              {kalaams.length} {kalaams.length === 1 ? 'noha' : 'nohas'}
+            </Text>
+          </View>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.playButton, { backgroundColor: accentColor, opacity: kalaams.length ? 1 : 0.6 }]}
+              onPress={() => play(kalaams[0].id)}
+              disabled={kalaams.length === 0}
+            >
+              <MaterialCommunityIcons name="play" size={18} color={t.accentOnAccent} />
+              <Text style={[styles.playButtonText, { color: t.accentOnAccent }]}>Play through</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={startRename}>
+              <MaterialCommunityIcons name="pencil" size={20} color={t.textMuted} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={confirmDelete}>
+              <MaterialCommunityIcons name="delete-outline" size={20} color={t.danger} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingInline}>
+            <ActivityIndicator size="small" color={accentColor} />
+            <Text style={[styles.loadingText, { color: t.textMuted }]}>Loading playlist...</Text>
+          </View>
+        ) : kalaams.length > 0 ? (
+          <View style={[styles.listCard, { backgroundColor: t.surface }]}>
+            {kalaams.map((k, index) => (
+              <DraggableRow
+                key={k.id}
+                style={[styles.itemRow, { borderBottomColor: t.divider }]}
+                index={index}
+                count={kalaams.length}
+                handleColor={t.textMuted}
+                onMove={move}
+              >
+                <TouchableOpacity style={{ flex: 1 }} onPress={() => play(k.id)}>
+                  <Text style={[styles.itemTitle, { color: k.deleted ? t.textMuted : t.textPrimary }]}>
+                    {index + 1}. {k.title}
+                  </Text>
+                  {k.deleted ? (
+                    <Text style={[styles.metaText, { color: t.danger }]}>Removed from catalogue</Text>
+                  ) : k.reciter ? (
+                    <Text style={[styles.metaText, { color: t.textMuted }]} numberOfLines={1}>{k.reciter}</Text>
+                  ) : null}
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => remove(k)} style={styles.removeButton}>
+                  <MaterialCommunityIcons name="minus-circle" size={20} color={t.danger} />
+                </TouchableOpacity>
+              </DraggableRow>
+            ))}
+          </View>
+        ) : (
+          <View style={styles.loadingInline}>
+            <Text style={[styles.metaText, { color: t.textMuted }]}>
+              This playlist is empty. Add nohas from their pages.
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f9fafb' },
+  headerCard: { backgroundColor: '#ffffff', borderRadius: 12, margin: 16, overflow: 'hidden', elevation: 2 },
+  headerBanner: { backgroundColor: '#16a34a', paddingVertical: 12, paddingHorizontal: 16 },
+  headerTitle: { color: '#ffffff', fontSize: 18, fontWeight: '700' },
+  headerSubtitle: { color: '#d1fae5', fontSize: 13, marginTop: 4 },
+  renameRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  renameInput: { flex: 1, borderRadius: 8, paddingHorizontal: 10, paddingVertical: 6, fontSize: 16 },
+  actions: { flexDirection: 'row', alignItems: 'center', gap: 8, padding: 12 },
+  playButton: { flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6, paddingVertical: 10, borderRadius: 10 },
+  playButtonText: { fontWeight: '700' },
+  iconButton: { padding: 8 },
+  loadingInline: { padding: 16, alignItems: 'center' },
+  loadingText: { color: '#6b7280', marginTop: 4 },
+  listCard: { backgroundColor: '#ffffff', borderRadius: 12, marginHorizontal: 16, marginBottom: 16, elevation: 2 },
+  itemRow: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, paddingVertical: 12, borderBottomColor: '#f3f4f6', borderBottomWidth: 1 },
+  itemTitle: { fontSize: 16, fontWeight: '600', color: '#111827', marginBottom: 2 },
+  metaText: { fontSize: 12, color: '#6b7280' },
+  removeButton: { padding: 4, marginLeft: 8 },
+});
@@ -0,0 +1,148 @@
+// PlaylistsScreen.tsx - The user's playlists, e.g. one per majlis
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useIsFocused } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import AppHeader from '../components/AppHeader';
+import { useThemeTokens, useSettings } from '../context/SettingsContext';
+import database from '../database/Database';
+import PlaylistService from '../services/PlaylistService';
+import { RootStackParamList, Playlist } from '../types';
+
+type Nav = StackNavigationProp<RootStackParamList>;
+
+export default function PlaylistsScreen() {
+  const t = useThemeTokens();
+  const { accentColor } = useSettings();
+  const navigation = useNavigation<Nav>();
+  const isFocused = useIsFocused();
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    if (isFocused) {
+      load();
+    }
+  }, [isFocused]);
+
+  const load = async () => {
+    try {
+      setLoading(true);
+      await database.init();
+      setPlaylists(await PlaylistService.getPlaylists());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const create = async () => {
+    if (!newName.trim()) return;
+    try {
+      const playlistId = await PlaylistService.createPlaylist(newName);
+      setNewName('');
+      navigation.navigate('Playlist', { playlistId });
+    } catch (error) {
+      console.error('Failed to create playlist:', error);
+      Alert.alert('Could not create playlist', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: t.background }]} edges={['top']}>
+      <AppHeader />
+      <ScrollView style={{ flex: 1 }} keyboardShouldPersistTaps="handled">
+        <View style={[styles.headerCard, { backgroundColor: t.surface }]}>
+          <View style={[styles.headerBanner, { backgroundColor: accentColor }]}>
+            <Text style={[styles.headerTitle, { color: t.accentOnAccent }]}>
+              <MaterialCommunityIcons name="playlist-music" size={18} color={t.accentOnAccent} /> Playlists
+            </Text>
+            <Text style={[styles.headerSubtitle, { color: t.accentOnAccent }]}>
+              {playlists.length} collections
+            </Text>
+          </View>
+          <View style={styles.createRow}>
+            <TextInput
+              style={[styles.input, { color: t.textPrimary, borderColor: t.border, backgroundColor: t.background }]}
+              placeholder="New playlist, e.g. Ashura night"
+              placeholderTextColor={t.textMuted}
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={create}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.createButton, { backgroundColor: accentColor, opacity: newName.trim() ? 1 : 0.6 }]}
+              onPress={create}
+              disabled={!newName.trim()}
+            >
+              <MaterialCommunityIcons name="plus" size={20} color={t.accentOnAccent} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingInline}>
+            <ActivityIndicator size="small" color={accentColor} />
+            <Text style={[styles.loadingText, { color: t.textMuted }]}>Loading playlists...</Text>
+          </View>
+        ) : playlists.length > 0 ? (
+          <View style={[styles.listCard, { backgroundColor: t.surface }]}>
+            {playlists.map(p => (
+              <TouchableOpacity
+                key={p.id}
+                style={[styles.itemRow, { borderBottomColor: t.divider }]}
+                onPress={() => navigation.navigate('Playlist', { playlistId: p.id })}
+              >
+                <MaterialCommunityIcons name="playlist-music" size={22} color={accentColor} />
+                <View style={{ flex: 1, marginLeft: 12 }}>
+                  <Text style={[styles.itemTitle, { color: t.textPrimary }]}>{p.name}</Text>
+                  <Text style={[styles.metaText, { color: t.textMuted }]}>
+                    {p.item_count} {p.item_count === 1 ? 'noha' : 'nohas'}
+                  </Text>
+                </View>
+                <MaterialCommunityIcons name="chevron-right" size={20} color={t.textMuted} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : (
+          <View style={styles.loadingInline}>
+            <Text style={[styles.metaText, { color: t.textMuted }]}>
+              No playlists yet. Create one above, then add nohas from their pages.
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f9fafb' },
+  headerCard: { backgroundColor: '#ffffff', borderRadius: 12, margin: 16, overflow: 'hidden', elevation: 2 },
+  headerBanner: { backgroundColor: '#16a34a', paddingVertical: 12, paddingHorizontal: 16 },
+  headerTitle: { color: '#ffffff', fontSize: 18, fontWeight: '700' },
+  headerSubtitle: { color: '#d1fae5', fontSize: 13, marginTop: 4 },
+  createRow: { flexDirection: 'row', alignItems: 'center', gap: 8, padding: 12 },
+  input: { flex: 1, borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 8, fontSize: 14 },
+  createButton: { padding: 10, borderRadius: 10 },
+  loadingInline: { padding: 16, alignItems: 'center' },
+  loadingText: { color: '#6b7280', marginTop: 4 },
+  listCard: { backgroundColor: '#ffffff', borderRadius: 12, marginHorizontal: 16, marginBottom: 16, elevation: 2 },
+  itemRow: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, paddingVertical: 12, borderBottomColor: '#f3f4f6', borderBottomWidth: 1 },
+  itemTitle: { fontSize: 16, fontWeight: '600', color: '#111827', marginBottom: 2 },
+  metaText: { fontSize: 12, color: '#6b7280' },
+});
@@ -0,0 +1,134 @@
+// RecentlyAddedScreen.tsx - Kalaams the latest syncs added or updated
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useIsFocused } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+
+import AppHeader from '../components/AppHeader';
+import { useThemeTokens, useSettings } from '../context/SettingsContext';
+import database from '../database/Database';
+import { RootStackParamList, RecentKalaam } from '../types';
+
+type Nav = StackNavigationProp<RootStackParamList>;
+
+const LIMIT = 100;
+
+export default function RecentlyAddedScreen() {
+  const t = useThemeTokens();
+  const { accentColor } = useSettings();
+  const navigation = useNavigation<Nav>();
+  const isFocused = useIsFocused();
+  const [kalaams, setKalaams] = useState<RecentKalaam[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (isFocused) {
+      load();
+    }
+  }, [isFocused]);
+
+  const load = async () => {
+    try {
+      setLoading(true);
+      await database.init();
+      setKalaams(await database.getRecentlyAdded(LIMIT));
+    } catch (error) {
+      console.error('Failed to load recently added kalaams:', error);
+      setKalaams([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: t.background }]} edges={['top']}>
+      <AppHeader />
+      <ScrollView style={{ flex: 1 }}>
+        <View style={[styles.headerCard, { backgroundColor: t.surface }]}>
+          <View style={[styles.headerBanner, { backgroundColor: accentColor }]}>
+            <Text style={[styles.headerTitle, { color: t.accentOnAccent }]}>
+              <MaterialCommunityIcons name="new-box" size={18} color={t.accentOnAccent} /> Recently added
+            </Text>
+            <Text style={[styles.headerSubtitle, { color: t.accentOnAccent }]}>
+              {kalaams.length} nohas from recent syncs
+            </Text>
+          </View>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingInline}>
+            <ActivityIndicator size="small" color={accentColor} />
+            <Text style={[styles.loadingText, { color: t.textMuted }]}>Loading...</Text>
+          </View>
+        ) : kalaams.length > 0 ? (
+          <View style={[styles.listCard, { backgroundColor: t.surface }]}>
+            {kalaams.map(k => (
+              <TouchableOpacity
+                key={k.id}
+                style={[styles.itemRow, { borderBottomColor: t.divider }]}
+                onPress={() => navigation.navigate('Kalaam', { id: k.id })}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.itemTitle, { color: t.textPrimary }]}>{k.title}</Text>
+                  <View style={styles.metaRow}>
+                    {k.reciter ? (
+                      <View style={styles.metaChip}>
+                        <MaterialCommunityIcons name="account-music" size={14} color={t.textMuted} />
+                        <Text style={[styles.metaText, { color: t.textMuted }]} numberOfLines={1} ellipsizeMode="tail">{k.reciter}</Text>
+                      </View>
+                    ) : null}
+                    {k.poet ? (
+                      <View style={styles.metaChip}>
+                        <MaterialCommunityIcons name="feather" size={14} color={t.textMuted} />
+                        <Text style={[styles.metaText, { color: t.textMuted }]} numberOfLines={1} ellipsizeMode="tail">{k.poet}</Text>
+                      </View>
+                    ) : null}
+                  </View>
+                </View>
+                <View style={[styles.badge, { backgroundColor: t.accentSubtle }]}>
+                  <Text style={[styles.badgeText, { color: accentColor }]}>
+                    {k.change_type === 'added' ? 'New' : 'Updated'}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : (
+          <View style={styles.loadingInline}>
+            <Text style={[styles.metaText, { color: t.textMuted }]}>
+              Nothing new yet. New nohas appear here after a sync.
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f9fafb' },
+  headerCard: { backgroundColor: '#ffffff', borderRadius: 12, margin: 16, overflow: 'hidden', elevation: 2 },
+  headerBanner: { backgroundColor: '#16a34a', paddingVertical: 12, paddingHorizontal: 16 },
+  headerTitle: { color: '#ffffff', fontSize: 18, fontWeight: '700' },
+  headerSubtitle: { color: '#d1fae5', fontSize: 13, marginTop: 4 },
+  loadingInline: { padding: 16, alignItems: 'center' },
+  loadingText: { color: '#6b7280', marginTop: 4 },
+  listCard: { backgroundColor: '#ffffff', borderRadius: 12, marginHorizontal: 16, marginBottom: 16, elevation: 2 },
+  itemRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: 16, paddingVertical: 12, borderBottomColor: '#f3f4f6', borderBottomWidth: 1 },
+  itemTitle: { fontSize: 16, fontWeight: '600', color: '#111827', marginBottom: 4 },
+  metaRow: { flexDirection: 'row', gap: 12 },
+  metaChip: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  metaText: { fontSize: 12, color: '#6b7280', marginLeft: 4 },
+  badge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 10, marginLeft: 8 },
+  badgeText: { fontSize: 11, fontWeight: '700' },
+});
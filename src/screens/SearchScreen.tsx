@@ -1,6 +1,8 @@
 import AppHeader from '../components/AppHeader';
+import NamePromptModal from '../components/NamePromptModal';
+import OptionPickerModal, { PickerOption } from '../components/OptionPickerModal';
 import { useThemeTokens, useSettings } from '../context/SettingsContext';
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -8,168 +10,546 @@ import {
   TextInput,
   TouchableOpacity,
   ScrollView,
+  FlatList,
+  ListRenderItem,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import database from '../database/Database';
-import { Kalaam, RootStackParamList } from '../types';
-import { useNavigation } from '@react-navigation/native';
-import { StackNavigationProp } from '@react-navigation/stack';
+import SearchHistoryService from '../services/SearchHistoryService';
+import {
+  TabParamList,
+  SavedSearch,
+  SearchFilters,
+  SearchFacets,
+  SearchResult,
+  SearchSnippet,
+  SearchSuggestion,
+  SuggestionKind,
+} from '../types';
+import { useNavigation, useRoute, useIsFocused, RouteProp } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+
+// Search is a tab; kalaams open in the Home stack
+type Nav = BottomTabNavigationProp<TabParamList, 'Search'>;
+type SearchRoute = RouteProp<TabParamList, 'Search'>;
+
+type Facet = 'reciter' | 'poet' | 'masaib';
+type Toggle = 'hasEnglish' | 'hasUrdu' | 'hasVideo';
 
-type Nav = StackNavigationProp<RootStackParamList>;
+const FACET_LABELS: Record<Facet, string> = { reciter: 'Reciter', poet: 'Poet', masaib: 'Masaib' };
+const TOGGLE_LABELS: Record<Toggle, string> = { hasEnglish: 'English', hasUrdu: 'Urdu', hasVideo: 'Video' };
+const SUGGESTION_ICONS: Record<SuggestionKind, string> = {
+  title: 'music',
+  reciter: 'account-music',
+  poet: 'feather',
+  masaib: 'book-open-variant',
+};
+const SUGGESTION_LABELS: Record<SuggestionKind, string> = { title: 'Title', ...FACET_LABELS };
+
+// Results fetched per page as the list scrolls
+const PAGE_SIZE = 30;
+
+const hasFilters = (filters: SearchFilters) => Object.values(filters).some(Boolean);
+
+// One line for a search: its text, then its filters
+function describeSearch(query: string, filters: SearchFilters): string {
+  return [
+    query && `"${query}"`,
+    filters.reciter,
+    filters.poet,
+    filters.masaib,
+    ...(Object.keys(TOGGLE_LABELS) as Toggle[]).map(toggle => filters[toggle] && TOGGLE_LABELS[toggle]),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+// A snippet cut at its matches, so they can be highlighted
+function highlightParts(snippet: SearchSnippet): Array<{ text: string; match: boolean }> {
+  const parts: Array<{ text: string; match: boolean }> = [];
+  let at = 0;
+  for (const { start, end } of snippet.matches) {
+    if (start > at) parts.push({ text: snippet.text.slice(at, start), match: false });
+    parts.push({ text: snippet.text.slice(start, end), match: true });
+    at = end;
+  }
+  if (at < snippet.text.length) parts.push({ text: snippet.text.slice(at), match: false });
+  return parts;
+}
+
+// Each facet's values with their counts
+function facetCounts(facets: SearchFacets): Record<Facet, Array<{ value: string; count: number }>> {
+  return {
+    reciter: facets.reciters.map(g => ({ value: g.reciter, count: g.count })),
+    poet: facets.poets.map(g => ({ value: g.poet, count: g.count })),
+    masaib: facets.masaib.map(g => ({ value: g.masaib, count: g.count })),
+  };
+}
 
 export default function SearchScreen() {
   const t = useThemeTokens();
   const { accentColor } = useSettings();
   const [query, setQuery] = useState('');
   const [loading, setLoading] = useState(false);
-  const [results, setResults] = useState<Kalaam[]>([]);
-  const [streamingResults, setStreamingResults] = useState<Kalaam[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextPageLoading, setNextPageLoading] = useState(false);
   const [showGuidance, setShowGuidance] = useState(true);
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [openFacet, setOpenFacet] = useState<Facet | null>(null);
+  // Every value a facet can take, and how many results of this search have each
+  const [groups, setGroups] = useState<SearchFacets>({ reciters: [], poets: [], masaib: [] });
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [recent, setRecent] = useState<string[]>([]);
+  const [saved, setSaved] = useState<SavedSearch[]>([]);
+  const [savePromptVisible, setSavePromptVisible] = useState(false);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
   const navigation = useNavigation<Nav>();
+  const isFocused = useIsFocused();
+  const savedSearchId = useRoute<SearchRoute>().params?.savedSearchId;
 
   // debounce timer + request token to drop stale responses
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const reqIdRef = useRef(0);
+  const suggestTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const suggestReqRef = useRef(0);
+  // The search the shown results belong to, and how many pages are loaded;
+  // typing doesn't change it until the debounced search runs
+  const activeRef = useRef<{ q: string; f: SearchFilters; page: number; fetching: boolean } | null>(null);
 
-  const normalizeRomanUrduQuery = (input: string): string => {
-    const VOWELS = 'aeiou';
-
-    // Word-level canonicalizations for ultra-common tokens
-    const WORD_EQUIV: Array<[RegExp, string]> = [
-      [/\b(main|mein|mei|mn)\b/g, 'mai'],
-      [/\b(nahin|nahi|nahee|nai)\b/g, 'nahi'],
-      [/\b(hain+)\b/g, 'hain'],
-      [/\b(kya|kia|ky[aa])\b/g, 'kya'],
-      [/\b(mera+a*h*)\b/g, 'mera'],
-    ];
-
-    // Ordered character/digraph rules (apply in sequence)
-    const SEQ_RULES: Array<[RegExp, string]> = [
-      // drop punctuation, keep spaces
-      [/[^\w\s]/g, ' '],
-
-      // digraphs/phones
-      [/kh/g, 'x'],
-      [/gh/g, 'g'],
-      [/zh/g, 'z'],
-      [/ph/g, 'f'],
-      [/th/g, 't'],
-      [/dh/g, 'd'],
-      [/bh/g, 'b'],
-      [/q/g, 'k'],
-
-      // c → k before a/o/u; c → s before e/i/y
-      [/c(?=[aou])/g, 'k'],
-      [/c(?=[eiy])/g, 's'],
-
-      // long vowels
-      [/aa+/g, 'a'],
-      [/(ee+|ii+)/g, 'i'],
-      [/oo+/g, 'u'],
-
-      // ai/ei/ay family → ai
-      [/(ei|ay)/g, 'ai'],
-
-      // terminal h after a vowel → drop
-      [new RegExp(`([${VOWELS}])h\\b`, 'g'), '$1'],
-
-      // collapse repeats: vowels to max 2, consonants to 1
-      [new RegExp(`([${VOWELS}])\\1{2,}`, 'g'), '$1$1'],
-      [new RegExp(`([^${VOWELS}\\W])\\1+`, 'g'), '$1'],
-
-      // e/i and o/u collapse (after ai handling)
-      [/e/g, 'i'],
-      [/o/g, 'u'],
-    ];
-
-    let s = input.toLowerCase().trim();
-
-    for (const [pat, repl] of WORD_EQUIV) s = s.replace(pat, repl);
-    for (const [pat, repl] of SEQ_RULES) s = s.replace(pat, repl);
-
-    // normalize whitespace
-    s = s.replace(/\s+/g, ' ').trim();
-
-    return s;
-  };
+  useEffect(() => {
+    (async () => {
+      try {
+        await database.init();
+        const [reciters, poets, masaib] = await Promise.all([
+          database.getReciterGroups(),
+          database.getPoetGroups(),
+          database.getMasaibGroups(),
+        ]);
+        setGroups({ reciters, poets, masaib });
+      } catch (e) {
+        console.warn('search filters error', e);
+      }
+    })();
+  }, []);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      await database.init();
+      const [queries, searches] = await Promise.all([
+        SearchHistoryService.getRecentQueries(),
+        SearchHistoryService.getSavedSearches(),
+      ]);
+      setRecent(queries);
+      setSaved(searches);
+    } catch (e) {
+      console.warn('search history error', e);
+    }
+  }, []);
 
-  const runSearch = async (q: string) => {
-    // empty query -> clear state, no DB call
+  useEffect(() => {
+    if (isFocused) {
+      loadHistory();
+    }
+  }, [isFocused, loadHistory]);
+
+  const remember = useCallback(
+    (q: string) => {
+      SearchHistoryService.recordQuery(q)
+        .then(loadHistory)
+        .catch(e => console.warn('search history error', e));
+    },
+    [loadHistory],
+  );
+
+  const runSearch = useCallback(async (q: string, f: SearchFilters) => {
+    // empty query and no filters -> clear state, no DB call
     const qTrim = q.trim();
-    if (!qTrim) {
+    if (!qTrim && !hasFilters(f)) {
+      reqIdRef.current++; // drop anything inflight
+      activeRef.current = null;
       setResults([]);
-      setStreamingResults([]);
+      setTotal(0);
+      setFacets(null);
       setLoading(false);
+      setNextPageLoading(false);
       setShowGuidance(true);
       return;
     }
 
     setShowGuidance(false);
-    setStreamingResults([]);
     setResults([]);
+    setTotal(0);
+    setNextPageLoading(false);
 
     const myReq = ++reqIdRef.current;
+    activeRef.current = { q: qTrim, f, page: 1, fetching: true };
     setLoading(true);
 
     try {
-      // Single database call for all results
-      const res = await database.searchKalaams(qTrim, 1, 100);
-      
+      // First page, plus counts for the filter chips
+      const [res, counts] = await Promise.all([
+        database.searchKalaams(qTrim, 1, PAGE_SIZE, f),
+        database.getSearchFacets(qTrim, f),
+      ]);
+
       if (reqIdRef.current !== myReq) return; // Request was cancelled
-      
-      // Simulate streaming by showing results progressively
-      const allResults = res.kalaams;
-      const batchSize = 3; // Show 3 results at a time for faster streaming
-      
-      for (let i = 0; i <= allResults.length; i += batchSize) {
-        if (reqIdRef.current !== myReq) break; // Request was cancelled
-        
-        const currentBatch = allResults.slice(0, i + batchSize);
-        setStreamingResults([...currentBatch]);
-        
-        // Smaller delay for faster streaming
-        if (i + batchSize < allResults.length) {
-          await new Promise(resolve => setTimeout(resolve, 30));
-        }
-      }
-      
-      if (reqIdRef.current === myReq) {
-        setResults(allResults);
-        setStreamingResults([]);
-      }
+      setResults(res.kalaams);
+      setTotal(res.total);
+      setFacets(counts);
     } catch (e) {
       // swallow or log; keep UI stable
       console.warn('search error', e);
       if (reqIdRef.current === myReq) {
         setResults([]);
-        setStreamingResults([]);
+        setTotal(0);
       }
     } finally {
-      if (reqIdRef.current === myReq) setLoading(false);
+      if (reqIdRef.current === myReq) {
+        activeRef.current!.fetching = false;
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  // Type-ahead for the text as typed, once typing pauses briefly
+  const suggest = useCallback((text: string) => {
+    if (suggestTimerRef.current) clearTimeout(suggestTimerRef.current);
+    const myReq = ++suggestReqRef.current;
+    if (!text.trim()) {
+      setSuggestions([]);
+      return;
+    }
+    suggestTimerRef.current = setTimeout(async () => {
+      try {
+        const found = await database.getSuggestions(text);
+        if (suggestReqRef.current === myReq) setSuggestions(found);
+      } catch (e) {
+        console.warn('suggestions error', e);
+      }
+    }, 120);
+  }, []);
+
+  const clearSuggestions = useCallback(() => {
+    if (suggestTimerRef.current) clearTimeout(suggestTimerRef.current);
+    suggestReqRef.current++; // drop anything inflight
+    setSuggestions([]);
+  }, []);
+
+  // Put a recent or saved search back in the box and run it
+  const applySearch = useCallback(
+    (q: string, f: SearchFilters) => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      clearSuggestions();
+      setQuery(q);
+      setFilters(f);
+      runSearch(q, f);
+      remember(q);
+    },
+    [runSearch, remember, clearSuggestions],
+  );
+
+  // Opened from a saved search pinned on HomeScreen
+  useEffect(() => {
+    if (savedSearchId === undefined) return;
+    navigation.setParams({ savedSearchId: undefined });
+    (async () => {
+      await database.init();
+      const search = await SearchHistoryService.getSavedSearch(savedSearchId);
+      if (search) {
+        applySearch(search.query, search.filters);
+      }
+    })().catch(e => console.warn('saved search error', e));
+  }, [savedSearchId, applySearch, navigation]);
+
+  // Next page of the active search; a newer search drops it via reqIdRef
+  const loadMore = async () => {
+    const active = activeRef.current;
+    if (!active || active.fetching || results.length >= total) return;
+
+    const myReq = reqIdRef.current;
+    const page = active.page + 1;
+    active.fetching = true;
+    setNextPageLoading(true);
+
+    try {
+      const res = await database.searchKalaams(active.q, page, PAGE_SIZE, active.f);
+      if (reqIdRef.current !== myReq) return; // Request was cancelled
+      active.page = page;
+      setResults(prev => [...prev, ...res.kalaams]);
+      setTotal(res.total);
+    } catch (e) {
+      console.warn('search error', e);
+    } finally {
+      if (reqIdRef.current === myReq) {
+        active.fetching = false;
+        setNextPageLoading(false);
+      }
     }
   };
 
   const onChange = (text: string) => {
     setQuery(text);
     if (timerRef.current) clearTimeout(timerRef.current);
-    timerRef.current = setTimeout(() => runSearch(text), 250);
+    timerRef.current = setTimeout(() => runSearch(text, filters), 250);
+    suggest(text);
   };
 
   const onSearchPress = () => {
     if (timerRef.current) clearTimeout(timerRef.current);
-    runSearch(query);
+    clearSuggestions();
+    runSearch(query, filters);
+    remember(query);
+  };
+
+  // Names open their list; a title opens its kalaam, or searches for it
+  // when several kalaams share it
+  const pickSuggestion = (suggestion: SearchSuggestion) => {
+    clearSuggestions();
+    switch (suggestion.kind) {
+      case 'reciter':
+        navigation.navigate('Home', { screen: 'Reciter', params: { reciter: suggestion.value } });
+        break;
+      case 'poet':
+        navigation.navigate('Home', { screen: 'Poet', params: { poet: suggestion.value } });
+        break;
+      case 'masaib':
+        navigation.navigate('Home', { screen: 'Masaib', params: { masaib: suggestion.value } });
+        break;
+      case 'title':
+        if (suggestion.count === 1) {
+          navigation.navigate('Home', { screen: 'Kalaam', params: { id: suggestion.kalaamId } });
+        } else {
+          applySearch(suggestion.value, {});
+        }
+        break;
+    }
+  };
+
+  const saveSearch = async (name: string) => {
+    try {
+      await SearchHistoryService.saveSearch(name, query, filters);
+      await loadHistory();
+    } catch (e) {
+      Alert.alert('Could not save search', e instanceof Error ? e.message : 'Unknown error');
+    }
+  };
+
+  const togglePinned = async (search: SavedSearch) => {
+    await SearchHistoryService.setPinned(search.id, !search.pinned);
+    await loadHistory();
+  };
+
+  const confirmDeleteSaved = (search: SavedSearch) => {
+    Alert.alert('Delete saved search?', `"${search.name}" will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await SearchHistoryService.deleteSavedSearch(search.id);
+          await loadHistory();
+        },
+      },
+    ]);
+  };
+
+  const removeRecent = async (q: string) => {
+    await SearchHistoryService.removeRecentQuery(q);
+    await loadHistory();
+  };
+
+  const clearRecent = async () => {
+    await SearchHistoryService.clearRecentQueries();
+    await loadHistory();
+  };
+
+  const updateFilters = (change: SearchFilters) => {
+    const next = { ...filters, ...change };
+    setFilters(next);
+    if (timerRef.current) clearTimeout(timerRef.current);
+    runSearch(query, next);
+  };
+
+  // Values worth offering for a facet: with a search running, only those
+  // that have results, counted for it
+  const facetOptions = (facet: Facet): PickerOption<string>[] => {
+    const counts = facets
+      ? new Map(facetCounts(facets)[facet].map(g => [g.value, g.count]))
+      : null;
+    return facetCounts(groups)[facet]
+      .filter(g => !counts || counts.has(g.value))
+      .map(g => ({ value: g.value, count: counts?.get(g.value) ?? g.count }))
+      .sort((a, b) => b.count - a.count)
+      .map(g => ({ label: `${g.value} (${g.count})`, value: g.value }));
   };
 
   useEffect(
     () => () => {
       if (timerRef.current) clearTimeout(timerRef.current);
+      if (suggestTimerRef.current) clearTimeout(suggestTimerRef.current);
       reqIdRef.current++; // invalidate inflight
     },
     [],
   );
 
+  // Saved and recent searches with the guidance before a search, the
+  // result count after; scrolls with the results
+  const listHeader = (
+    <>
+      {showGuidance && saved.length > 0 && (
+        <View style={styles.historySection}>
+          <Text style={[styles.historyTitle, { color: t.textPrimary }]}>Saved searches</Text>
+          {saved.map(search => (
+            <TouchableOpacity
+              key={search.id}
+              style={[styles.historyRow, { backgroundColor: t.surface }]}
+              onPress={() => applySearch(search.query, search.filters)}
+              onLongPress={() => confirmDeleteSaved(search)}
+            >
+              <MaterialCommunityIcons name="bookmark-outline" size={18} color={accentColor} />
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.historyText, { color: t.textPrimary }]} numberOfLines={1}>
+                  {search.name}
+                </Text>
+                <Text style={[styles.historyMeta, { color: t.textMuted }]} numberOfLines={1}>
+                  {describeSearch(search.query, search.filters)}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => togglePinned(search)} style={styles.historyAction}>
+                <MaterialCommunityIcons
+                  name={search.pinned ? 'pin' : 'pin-outline'}
+                  size={18}
+                  color={search.pinned ? accentColor : t.textMuted}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => confirmDeleteSaved(search)} style={styles.historyAction}>
+                <MaterialCommunityIcons name="delete-outline" size={18} color={t.textMuted} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {showGuidance && recent.length > 0 && (
+        <View style={styles.historySection}>
+          <View style={styles.historyHeader}>
+            <Text style={[styles.historyTitle, { color: t.textPrimary }]}>Recent searches</Text>
+            <TouchableOpacity onPress={clearRecent}>
+              <Text style={[styles.historyClear, { color: accentColor }]}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          {recent.map(q => (
+            <TouchableOpacity
+              key={q}
+              style={[styles.historyRow, { backgroundColor: t.surface }]}
+              onPress={() => applySearch(q, {})}
+            >
+              <MaterialCommunityIcons name="history" size={18} color={t.textMuted} />
+              <Text style={[styles.historyText, { color: t.textPrimary, flex: 1 }]} numberOfLines={1}>
+                {q}
+              </Text>
+              <TouchableOpacity onPress={() => removeRecent(q)} style={styles.historyAction}>
+                <MaterialCommunityIcons name="close" size={18} color={t.textMuted} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {/* Search Guidance Text */}
+      {showGuidance && (
+        <View style={styles.guidanceContainer}>
+          <Text style={[styles.guidanceText, { color: t.textMuted }]}>
+            You can search kalaam in Urdu like 'تو نہ آیا غازی'
+          </Text>
+          <Text style={[styles.guidanceText, { color: t.textMuted }]}>
+            You can also search in English like 'Tu na aaya ghazi'
+          </Text>
+          <Text style={[styles.guidanceText, { color: t.textMuted }]}>
+            You can also do lyrics search such as 'دھوپ میں تُو تھا شجر'
+          </Text>
+          <Text style={[styles.guidanceText, { color: t.textMuted }]}>
+            Or in English similar to 'Dhoop mein tu tha shajar'
+          </Text>
+          <Text style={[styles.guidanceNote, { color: t.textMuted }]}>
+            Note: English roman script spellings don't have a standard so may
+            cause issues for e.g main can be written as mein etc
+          </Text>
+        </View>
+      )}
+      {!showGuidance && (
+        <View style={styles.resultHeader}>
+          <Text style={[styles.resultCount, { color: t.textMuted }]}>
+            {total === 1 ? '1 result' : `${total} results`}
+          </Text>
+          <TouchableOpacity style={styles.saveSearchBtn} onPress={() => setSavePromptVisible(true)}>
+            <MaterialCommunityIcons name="bookmark-plus-outline" size={16} color={accentColor} />
+            <Text style={[styles.saveSearchText, { color: accentColor }]}>Save search</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </>
+  );
+
+  const renderResult: ListRenderItem<SearchResult> = ({ item: k }) => (
+    <TouchableOpacity
+      style={[styles.itemRow, { backgroundColor: t.surface }]}
+      onPress={() => {
+        remember(activeRef.current?.q ?? query);
+        navigation.navigate('Home', {
+          screen: 'Kalaam',
+          params: {
+            id: k.id,
+            line: k.snippet
+              ? { language: k.snippet.language, index: k.snippet.line }
+              : undefined,
+          },
+        });
+      }}
+    >
+      <MaterialCommunityIcons
+        name="music"
+        size={18}
+        color={accentColor}
+      />
+      <View style={{ flex: 1 }}>
+        <Text
+          style={[styles.itemTitle, { color: t.textPrimary }]}
+          numberOfLines={2}
+        >
+          {k.title}
+        </Text>
+        {k.snippet && (
+          <Text
+            style={[
+              styles.snippet,
+              { color: t.textMuted },
+              k.snippet.language === 'urdu' && styles.snippetUrdu,
+            ]}
+            numberOfLines={2}
+          >
+            {highlightParts(k.snippet).map((part, i) =>
+              part.match ? (
+                <Text key={i} style={[styles.snippetMatch, { color: accentColor }]}>
+                  {part.text}
+                </Text>
+              ) : (
+                part.text
+              ),
+            )}
+          </Text>
+        )}
+      </View>
+      <MaterialCommunityIcons
+        name="chevron-right"
+        size={22}
+        color={t.textMuted}
+      />
+    </TouchableOpacity>
+  );
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: t.background }]}>
       <AppHeader />
@@ -208,71 +588,123 @@ export default function SearchScreen() {
           </TouchableOpacity>
         </View>
 
-        {/* Search Guidance Text */}
-        {showGuidance && (
-          <View style={styles.guidanceContainer}>
-            <Text style={[styles.guidanceText, { color: t.textMuted }]}>
-              You can search kalaam in Urdu like 'تو نہ آیا غازی'
-            </Text>
-            <Text style={[styles.guidanceText, { color: t.textMuted }]}>
-              You can also search in English like 'Tu na aaya ghazi'
-            </Text>
-            <Text style={[styles.guidanceText, { color: t.textMuted }]}>
-              You can also do lyrics search such as 'دھوپ میں تُو تھا شجر'
-            </Text>
-            <Text style={[styles.guidanceText, { color: t.textMuted }]}>
-              Or in English similar to 'Dhoop mein tu tha shajar'
-            </Text>
-            <Text style={[styles.guidanceNote, { color: t.textMuted }]}>
-              Note: English roman script spellings don't have a standard so may
-              cause issues for e.g main can be written as mein etc
-            </Text>
+        {suggestions.length > 0 && (
+          <View style={[styles.suggestions, { backgroundColor: t.surface, borderColor: t.border }]}>
+            {suggestions.map(suggestion => (
+              <TouchableOpacity
+                key={`${suggestion.kind}:${suggestion.value}`}
+                style={[styles.suggestionRow, { borderBottomColor: t.divider }]}
+                onPress={() => pickSuggestion(suggestion)}
+              >
+                <MaterialCommunityIcons name={SUGGESTION_ICONS[suggestion.kind]} size={16} color={accentColor} />
+                <Text style={[styles.suggestionText, { color: t.textPrimary }]} numberOfLines={1}>
+                  {suggestion.value}
+                </Text>
+                <Text style={[styles.suggestionMeta, { color: t.textMuted }]}>
+                  {SUGGESTION_LABELS[suggestion.kind]} · {suggestion.count}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </View>
         )}
+
+        {/* Filter chips: facets open a picker, a set filter is removed with its × */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+          keyboardShouldPersistTaps="handled"
+        >
+          {(Object.keys(FACET_LABELS) as Facet[]).map(facet => {
+            const value = filters[facet];
+            return (
+              <TouchableOpacity
+                key={facet}
+                style={[
+                  styles.chip,
+                  { borderColor: value ? accentColor : t.border, backgroundColor: t.surface },
+                ]}
+                onPress={() => (value ? updateFilters({ [facet]: undefined }) : setOpenFacet(facet))}
+              >
+                <Text
+                  style={[styles.chipText, { color: value ? accentColor : t.textPrimary }]}
+                  numberOfLines={1}
+                >
+                  {value || FACET_LABELS[facet]}
+                </Text>
+                <MaterialCommunityIcons
+                  name={value ? 'close' : 'chevron-down'}
+                  size={14}
+                  color={value ? accentColor : t.textMuted}
+                />
+              </TouchableOpacity>
+            );
+          })}
+          {(Object.keys(TOGGLE_LABELS) as Toggle[]).map(toggle => {
+            const on = Boolean(filters[toggle]);
+            return (
+              <TouchableOpacity
+                key={toggle}
+                style={[
+                  styles.chip,
+                  { borderColor: on ? accentColor : t.border, backgroundColor: t.surface },
+                ]}
+                onPress={() => updateFilters({ [toggle]: on ? undefined : true })}
+              >
+                <Text style={[styles.chipText, { color: on ? accentColor : t.textPrimary }]}>
+                  {TOGGLE_LABELS[toggle]}
+                </Text>
+                {on && <MaterialCommunityIcons name="close" size={14} color={accentColor} />}
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
       </View>
 
       {loading ? (
         <View style={{ padding: 16 }}>
           <ActivityIndicator color={accentColor} />
-          {streamingResults.length > 0 && (
-            <Text style={[styles.streamingText, { color: t.textMuted }]}>
-              Found {streamingResults.length} results so far...
-            </Text>
-          )}
         </View>
       ) : (
-        <ScrollView style={{ flex: 1, paddingHorizontal: 16 }}>
-          {(streamingResults.length > 0 ? streamingResults : results).map(k => (
-            <TouchableOpacity
-              key={k.id}
-              style={[styles.itemRow, { backgroundColor: t.surface }]}
-              onPress={() =>
-                navigation.navigate(
-                  'Home' as never,
-                  { screen: 'Kalaam', params: { id: k.id } } as never,
-                )
-              }
-            >
-              <MaterialCommunityIcons
-                name="music"
-                size={18}
-                color={accentColor}
-              />
-              <Text
-                style={[styles.itemTitle, { color: t.textPrimary }]}
-                numberOfLines={2}
-              >
-                {k.title}
-              </Text>
-              <MaterialCommunityIcons
-                name="chevron-right"
-                size={22}
-                color={t.textMuted}
-              />
-            </TouchableOpacity>
-          ))}
-        </ScrollView>
+        <FlatList
+          style={{ flex: 1, paddingHorizontal: 16 }}
+          data={results}
+          keyExtractor={k => k.id.toString()}
+          renderItem={renderResult}
+          ListHeaderComponent={listHeader}
+          ListFooterComponent={
+            nextPageLoading ? (
+              <View style={styles.loadingMore}>
+                <ActivityIndicator size="small" color={accentColor} />
+                <Text style={[styles.loadingMoreText, { color: t.textMuted }]}>
+                  Loading more...
+                </Text>
+              </View>
+            ) : null
+          }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          keyboardShouldPersistTaps="handled"
+        />
       )}
+
+      <OptionPickerModal
+        visible={openFacet !== null}
+        title={openFacet ? `Filter by ${FACET_LABELS[openFacet].toLowerCase()}` : ''}
+        options={openFacet ? facetOptions(openFacet) : []}
+        emptyText="No results to narrow down"
+        onSelect={value => openFacet && updateFilters({ [openFacet]: value })}
+        onClose={() => setOpenFacet(null)}
+      />
+      <NamePromptModal
+        visible={savePromptVisible}
+        title="Save search"
+        initialName={query.trim() || describeSearch('', filters)}
+        placeholder="Name, e.g. Karbala nohas"
+        onSubmit={saveSearch}
+        onClose={() => setSavePromptVisible(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -295,6 +727,37 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
   },
   searchBtnText: { fontWeight: '700' },
+  chipRow: {
+    gap: 8,
+    paddingTop: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 180,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: { fontSize: 13, fontWeight: '600' },
+  suggestions: {
+    marginTop: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  suggestionText: { flex: 1, fontSize: 14, fontWeight: '600' },
+  suggestionMeta: { fontSize: 12 },
   guidanceContainer: {
     marginTop: 16,
     paddingHorizontal: 4,
@@ -311,12 +774,43 @@ const styles = StyleSheet.create({
     marginTop: 8,
     opacity: 0.8,
   },
-  streamingText: {
-    fontSize: 12,
-    textAlign: 'center',
-    marginTop: 8,
-    fontStyle: 'italic',
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  resultCount: { fontSize: 12 },
+  saveSearchBtn: { flexDirection: 'row', alignItems: 'center', gap: 4, paddingVertical: 4 },
+  saveSearchText: { fontSize: 12, fontWeight: '700' },
+  historySection: { marginBottom: 12 },
+  historyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  historyTitle: { fontSize: 14, fontWeight: '700', marginBottom: 8 },
+  historyClear: { fontSize: 13, fontWeight: '600', marginBottom: 8 },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 6,
+  },
+  historyText: { fontSize: 14, fontWeight: '600' },
+  historyMeta: { fontSize: 12, marginTop: 2 },
+  historyAction: { padding: 4 },
+  loadingMore: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 16,
   },
+  loadingMoreText: { fontSize: 12 },
   itemRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -326,5 +820,8 @@ const styles = StyleSheet.create({
     padding: 12,
     marginBottom: 10,
   },
-  itemTitle: { flex: 1, color: '#111827', fontWeight: '600' },
+  itemTitle: { color: '#111827', fontWeight: '600' },
+  snippet: { fontSize: 13, lineHeight: 19, marginTop: 4 },
+  snippetUrdu: { textAlign: 'right', writingDirection: 'rtl' },
+  snippetMatch: { fontWeight: '700' },
 });
@@ -12,16 +12,29 @@ import {
   Platform,
   ScrollView,
   FlatList,
+  Share,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Slider from '@react-native-community/slider';
+import {
+  pick,
+  keepLocalCopy,
+  saveDocuments,
+  types as fileTypes,
+  errorCodes,
+  isErrorWithCode,
+} from '@react-native-documents/picker';
+import RNFS from 'react-native-fs';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import AppHeader from '../components/AppHeader';
+import SyncDiagnosticsModal from '../components/SyncDiagnosticsModal';
 import { useSettings, useThemeTokens } from '../context/SettingsContext';
 import FontManager from '../utils/FontManager';
 import { foregroundSyncManager } from '../services/ForegroundSyncManager';
 import { syncManager } from '../services/SyncManager';
-import { SyncResult } from '../types';
+import BackupService from '../services/BackupService';
+import { BackupFile, RestoreMode, SyncResult } from '../types';
 import database from '../database/Database';
 
 const EN_PREVIEW = 'Aao ro lein Shah-e-Karbala ko';
@@ -95,11 +108,29 @@ export default function SettingsScreen() {
     settings.urduFontScale ?? 1.2,
   );
 
+  // Follow settings changed underneath this screen, e.g. by a backup restore
+  useEffect(() => {
+    if (settings.theme) setTheme(settings.theme);
+    if (settings.accentColor) setAccentColor(settings.accentColor);
+    if (settings.engFont) setEngFont(settings.engFont);
+    if (settings.urduFont) setUrduFont(settings.urduFont);
+    if (settings.engFontScale) setEngScale(settings.engFontScale);
+    if (settings.urduFontScale) setUrduScale(settings.urduFontScale);
+  }, [
+    settings.theme,
+    settings.accentColor,
+    settings.engFont,
+    settings.urduFont,
+    settings.engFontScale,
+    settings.urduFontScale,
+  ]);
+
   // Sync-related state
   const [isSyncing, setIsSyncing] = useState<boolean>(false);
   const [syncStatus, setSyncStatus] = useState<string>('');
   const [lastSyncTime, setLastSyncTime] = useState<string>('');
   const [remainingSyncs, setRemainingSyncs] = useState<number>(2);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
 
   // Font dropdown states
   const [showEngFontDropdown, setShowEngFontDropdown] = useState(false);
@@ -149,10 +180,88 @@ export default function SettingsScreen() {
     }
   };
 
+  // The backup is written to a .json file first; iOS shares the file, while
+  // Android's share sheet only takes text, so it gets a save dialog instead
+  const handleExportBackup = async () => {
+    try {
+      const backup = await BackupService.createBackup();
+      const fileName = `pursadari-backup-${backup.exportedAt.slice(0, 10)}.json`;
+      const path = `${RNFS.CachesDirectoryPath}/${fileName}`;
+      await RNFS.writeFile(path, JSON.stringify(backup, null, 2), 'utf8');
+      if (Platform.OS === 'android') {
+        const [saved] = await saveDocuments({
+          sourceUris: [`file://${path}`],
+          mimeType: 'application/json',
+          fileName,
+        });
+        if (saved.error) {
+          throw new Error(saved.error);
+        }
+      } else {
+        await Share.share({ title: 'Pursadari backup', url: `file://${path}` });
+      }
+    } catch (error) {
+      if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) return;
+      console.error('Failed to export backup:', error);
+      Alert.alert('Export failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const restoreBackup = async (backup: BackupFile, mode: RestoreMode) => {
+    try {
+      const summary = await BackupService.restoreBackup(backup, mode);
+      await settings.reloadSettings?.();
+      await syncManager.loadSyncConfig();
+      Alert.alert(
+        'Backup restored',
+        `Restored ${summary.favourites} favourites and ${summary.playlists} playlists.` +
+          (summary.skippedKalaams > 0
+            ? ` ${summary.skippedKalaams} nohas aren't on this device yet and were skipped. Sync, then import again to add them.`
+            : ''),
+      );
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      Alert.alert('Import failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleImportBackup = async () => {
+    let backup: BackupFile;
+    try {
+      const [file] = await pick({ type: [fileTypes.json, fileTypes.plainText] });
+      // Android hands back a content:// URI; read from a local copy instead
+      const [copy] = await keepLocalCopy({
+        files: [{ uri: file.uri, fileName: file.name ?? 'backup.json' }],
+        destination: 'cachesDirectory',
+      });
+      if (copy.status === 'error') {
+        throw new Error(copy.copyError);
+      }
+      const contents = await RNFS.readFile(decodeURIComponent(copy.localUri.replace('file://', '')), 'utf8');
+      backup = BackupService.parseBackup(contents);
+    } catch (error) {
+      if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) return;
+      console.error('Failed to read backup:', error);
+      Alert.alert('Import failed', error instanceof Error ? error.message : 'Could not read the file.');
+      return;
+    }
+
+    Alert.alert(
+      'Import backup',
+      `This backup has ${backup.favourites.length} favourites and ${backup.playlists.length} playlists. ` +
+        'Merge adds them to what is here; Replace removes your current favourites and playlists first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => restoreBackup(backup, 'merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => restoreBackup(backup, 'replace') },
+      ],
+    );
+  };
+
   // If context provides setters, mirror changes back out
-  const applyTheme = (t: 'light' | 'dark') => {
-    setTheme(t);
-    settings.setTheme?.(t);
+  const applyTheme = (next: 'light' | 'dark') => {
+    setTheme(next);
+    settings.setTheme?.(next);
   };
   const applyAccent = (c: string) => {
     setAccentColor(c);
@@ -428,6 +537,36 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Backup */}
+        <View style={[styles.section, styles.card, { backgroundColor: t.surface }]}>
+          <Text style={[styles.sectionTitle, { color: t.textPrimary }]}>
+            Backup
+          </Text>
+          <Text style={[styles.backupHint, { color: t.textMuted }]}>
+            Favourites, playlists and settings, for a new phone or reinstall.
+          </Text>
+          <View style={styles.backupButtons}>
+            <TouchableOpacity
+              style={[styles.diagnosticsButton, styles.backupButton, { borderColor: t.border }]}
+              onPress={handleExportBackup}
+            >
+              <MaterialCommunityIcons name="export-variant" size={18} color={t.textSecondary} />
+              <Text style={[styles.diagnosticsButtonText, { color: t.textSecondary }]}>
+                Export
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.diagnosticsButton, styles.backupButton, { borderColor: t.border }]}
+              onPress={handleImportBackup}
+            >
+              <MaterialCommunityIcons name="import" size={18} color={t.textSecondary} />
+              <Text style={[styles.diagnosticsButtonText, { color: t.textSecondary }]}>
+                Import
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
         {/* Data Sync */}
         <View
           style={[styles.section, styles.card, { backgroundColor: t.surface, marginBottom: 20 }]}
@@ -483,9 +622,27 @@ export default function SettingsScreen() {
               {isSyncing ? 'Syncing...' : 'Sync Now'}
             </Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.diagnosticsButton, { borderColor: t.border }]}
+            onPress={() => setShowDiagnostics(true)}
+          >
+            <MaterialCommunityIcons name="stethoscope" size={18} color={t.textSecondary} />
+            <Text style={[styles.diagnosticsButtonText, { color: t.textSecondary }]}>
+              Diagnostics
+            </Text>
+          </TouchableOpacity>
         </View>
       </ScrollView>
 
+      <SyncDiagnosticsModal
+        visible={showDiagnostics}
+        onClose={() => {
+          setShowDiagnostics(false);
+          loadSyncStatus();
+        }}
+      />
+
       {/* Accent Color Modal */}
       <Modal
         visible={pickerOpen}
@@ -905,4 +1062,28 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  diagnosticsButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 10,
+  },
+  diagnosticsButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  backupHint: {
+    fontSize: 13,
+  },
+  backupButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  backupButton: {
+    flex: 1,
+  },
 });
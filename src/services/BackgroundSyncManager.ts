@@ -1,71 +1,71 @@
-import { AppState, AppStateStatus } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import BackgroundFetch, {
+  BackgroundFetchConfig,
+  HeadlessEvent,
+} from 'react-native-background-fetch';
 import { syncManager } from './SyncManager';
-import { notificationService } from './NotificationService';
-
+import { SyncConfig } from '../types';
+
+// Neither OS runs background fetch more often than every 15 minutes
+const MIN_FETCH_INTERVAL_MINUTES = 15;
+
+/**
+ * OS-scheduled background sync
+ *
+ * react-native-background-fetch schedules the runs: BGTaskScheduler on iOS,
+ * and on Android a JobScheduler job that also runs as a headless JS task
+ * after the app has been terminated (see backgroundSyncHeadlessTask, which
+ * index.js registers). Each run syncs under the current SyncConfig;
+ * SyncManager records it as a 'background' SyncEvent.
+ */
 export class BackgroundSyncManager {
   private isConfigured: boolean = false;
-  private syncInterval: NodeJS.Timeout | null = null;
-  private lastSyncTime: number = 0;
-  private readonly SYNC_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-  private readonly STORAGE_KEY = 'last_background_sync';
-
-  constructor() {
-    // Disabled auto-sync for first release
-    // this.initializeBackgroundSync();
-  }
-
-  private async initializeBackgroundSync(): Promise<void> {
-    if (this.isConfigured) {
-      return;
-    }
-
-    try {
-      // Load last sync time
-      const lastSync = await AsyncStorage.getItem(this.STORAGE_KEY);
-      this.lastSyncTime = lastSync ? parseInt(lastSync) : 0;
-
-      // Set up app state listener for background sync
-      AppState.addEventListener('change', this.handleAppStateChange.bind(this));
-
-      this.isConfigured = true;
-      console.log('[BackgroundSync] Background sync initialized');
-    } catch (error) {
-      console.error('[BackgroundSync] Failed to initialize:', error);
-    }
+  private unsubscribeConfig: (() => void) | null = null;
+
+  // Scheduling constraints for the OS, from the sync config
+  getFetchConfig(config: SyncConfig): BackgroundFetchConfig {
+    return {
+      minimumFetchInterval: Math.max(
+        MIN_FETCH_INTERVAL_MINUTES,
+        config.backgroundSyncInterval,
+      ),
+      stopOnTerminate: false,
+      startOnBoot: true,
+      enableHeadless: true,
+      requiredNetworkType: config.wifiOnlySync
+        ? BackgroundFetch.NETWORK_TYPE_UNMETERED
+        : BackgroundFetch.NETWORK_TYPE_ANY,
+    };
   }
 
-  private handleAppStateChange(nextAppState: AppStateStatus): void {
-    if (nextAppState === 'background') {
-      this.startPeriodicSync();
-    } else if (nextAppState === 'active') {
-      this.stopPeriodicSync();
+  private async configure(config: SyncConfig): Promise<void> {
+    const status = await BackgroundFetch.configure(
+      this.getFetchConfig(config),
+      taskId => this.runTask(taskId),
+      taskId => this.handleTimeout(taskId),
+    );
+    if (status !== BackgroundFetch.STATUS_AVAILABLE) {
+      console.warn('[BackgroundSync] Background fetch unavailable, status:', status);
     }
   }
 
-  private startPeriodicSync(): void {
-    if (this.syncInterval) {
+  async startBackgroundSync(): Promise<void> {
+    if (this.isConfigured) {
       return;
     }
 
-    console.log('[BackgroundSync] Starting periodic sync...');
-    this.syncInterval = setInterval(async () => {
-      await this.performBackgroundSync();
-    }, this.SYNC_INTERVAL);
-  }
+    try {
+      const config = await syncManager.loadSyncConfig();
+      await this.configure(config);
 
-  private stopPeriodicSync(): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-      this.syncInterval = null;
-      console.log('[BackgroundSync] Periodic sync stopped');
-    }
-  }
+      // Reschedule with the new constraints whenever the config changes
+      this.unsubscribeConfig = syncManager.onSyncConfigChange(newConfig => {
+        this.configure(newConfig).catch(error => {
+          console.error('[BackgroundSync] Failed to reschedule:', error);
+        });
+      });
 
-  async startBackgroundSync(): Promise<void> {
-    try {
-      console.log('[BackgroundSync] Background sync started');
-      await this.performBackgroundSync();
+      this.isConfigured = true;
+      console.log('[BackgroundSync] Background sync scheduled');
     } catch (error) {
       console.error('[BackgroundSync] Failed to start background sync:', error);
     }
@@ -73,40 +73,35 @@ export class BackgroundSyncManager {
 
   async stopBackgroundSync(): Promise<void> {
     try {
-      this.stopPeriodicSync();
+      this.unsubscribeConfig?.();
+      this.unsubscribeConfig = null;
+      await BackgroundFetch.stop();
+      this.isConfigured = false;
       console.log('[BackgroundSync] Background sync stopped');
     } catch (error) {
       console.error('[BackgroundSync] Failed to stop background sync:', error);
     }
   }
 
-  async performBackgroundSync(): Promise<void> {
+  // One scheduled run. The OS must always be told the task finished, or it
+  // will throttle future runs.
+  async runTask(taskId: string): Promise<void> {
+    console.log('[BackgroundSync] Performing background sync, task:', taskId);
+
     try {
-      const now = Date.now();
-      
-      // Check if enough time has passed since last sync
-      if (now - this.lastSyncTime < this.SYNC_INTERVAL) {
-        console.log('[BackgroundSync] Sync skipped - too soon since last sync (24 hours minimum)');
-        return;
-      }
-
-      console.log('[BackgroundSync] Performing background sync...');
-      const result = await syncManager.syncKalaamData();
+      const result = await syncManager.syncKalaamData('background');
       console.log('[BackgroundSync] Background sync completed:', result);
-      
-      // Update last sync time
-      this.lastSyncTime = now;
-      await AsyncStorage.setItem(this.STORAGE_KEY, now.toString());
-      
-      // Disable background sync notifications to prevent spam
-      // Only foreground sync should show notifications
-      // if (result.success && result.recordsProcessed > 0 && (result.activeRecords > 0 || result.deletedRecords > 0)) {
-      //   notificationService.showSyncNotification(result);
-      // }
     } catch (error) {
       console.error('[BackgroundSync] Background sync failed:', error);
+    } finally {
+      BackgroundFetch.finish(taskId);
     }
   }
+
+  private handleTimeout(taskId: string): void {
+    console.warn('[BackgroundSync] Task ran out of time:', taskId);
+    BackgroundFetch.finish(taskId);
+  }
 }
 
 // Export singleton instance (lazy-loaded to prevent auto-sync)
@@ -119,4 +114,17 @@ export const backgroundSyncManager = (): BackgroundSyncManager => {
   return _backgroundSyncManager;
 };
 
+/**
+ * Android headless entry point, for runs after the app was terminated.
+ * Registered in index.js, outside any React tree.
+ */
+export async function backgroundSyncHeadlessTask(event: HeadlessEvent): Promise<void> {
+  if (event.timeout) {
+    console.warn('[BackgroundSync] Headless task ran out of time:', event.taskId);
+    BackgroundFetch.finish(event.taskId);
+    return;
+  }
+  await backgroundSyncManager().runTask(event.taskId);
+}
+
 export default backgroundSyncManager;
@@ -0,0 +1,367 @@
+import { SQLiteDatabase } from 'react-native-sqlite-storage';
+import {
+  BackupFavourite,
+  BackupFile,
+  BackupPlaylist,
+  RestoreMode,
+  RestoreSummary,
+} from '../types';
+import database from '../database/Database';
+import FavoritesService from './FavoritesService';
+
+const BACKUP_FORMAT = 'pursadari-backup';
+const BACKUP_VERSION = 1;
+
+// User preferences. Sync state describes this device's copy of the
+// catalogue, so it stays behind.
+const BACKED_UP_SETTINGS = [
+  'theme',
+  'accent_color',
+  'urdu_font_size',
+  'urdu_font',
+  'eng_font_size',
+  'eng_font',
+  'default_language',
+  'sync_config',
+];
+
+// Stays under SQLite's limit on bound parameters
+const ID_CHUNK_SIZE = 500;
+
+type Statement = [string, any[]];
+
+/**
+ * Backup Service
+ *
+ * Everything personal (favourites, playlists, settings) lives only on the
+ * device; this writes it to a versioned JSON backup and reads it back.
+ * Special content is favourited and pinned on every install, so it isn't
+ * backed up. A restore runs as one transaction and skips kalaams the local
+ * catalogue doesn't have.
+ */
+class BackupService {
+
+  /**
+   * Everything personal, as a backup file
+   */
+  static async createBackup(): Promise<BackupFile> {
+    const db = database.ensureInitialized();
+
+    const [favouriteRows] = await db.executeSql(`
+      SELECT kalaam_id, created_at, pinned, pinned_at, pin_order FROM favourites
+      WHERE kalaam_id >= 0
+      ORDER BY created_at ASC, kalaam_id ASC
+    `);
+    const favourites: BackupFavourite[] = [];
+    for (let i = 0; i < favouriteRows.rows.length; i++) {
+      const row = favouriteRows.rows.item(i);
+      favourites.push({
+        kalaamId: row.kalaam_id,
+        createdAt: row.created_at ?? null,
+        pinned: !!row.pinned,
+        pinnedAt: row.pinned_at ?? null,
+        pinOrder: row.pin_order ?? null,
+      });
+    }
+
+    const [playlistRows] = await db.executeSql('SELECT * FROM playlists ORDER BY id ASC');
+    const [itemRows] = await db.executeSql(
+      'SELECT playlist_id, kalaam_id, added_at FROM playlist_items ORDER BY playlist_id, position ASC'
+    );
+    const playlists = new Map<number, BackupPlaylist>();
+    for (let i = 0; i < playlistRows.rows.length; i++) {
+      const row = playlistRows.rows.item(i);
+      playlists.set(row.id, {
+        name: row.name,
+        createdAt: row.created_at ?? null,
+        updatedAt: row.updated_at ?? null,
+        items: [],
+      });
+    }
+    for (let i = 0; i < itemRows.rows.length; i++) {
+      const row = itemRows.rows.item(i);
+      playlists.get(row.playlist_id)?.items.push({
+        kalaamId: row.kalaam_id,
+        addedAt: row.added_at ?? null,
+      });
+    }
+
+    const [settingRows] = await db.executeSql(
+      `SELECT key, value FROM settings WHERE key IN (${BACKED_UP_SETTINGS.map(() => '?').join(', ')})`,
+      BACKED_UP_SETTINGS
+    );
+    const settings: Record<string, string> = {};
+    for (let i = 0; i < settingRows.rows.length; i++) {
+      const row = settingRows.rows.item(i);
+      settings[row.key] = row.value;
+    }
+
+    console.log('[BackupService] Backed up', favourites.length, 'favourites and', playlists.size, 'playlists');
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      favourites,
+      playlists: [...playlists.values()],
+      settings,
+    };
+  }
+
+  /**
+   * Read a backup file's text. Throws an Error with a message for the user
+   * if it isn't a backup this version can import.
+   */
+  static parseBackup(text: string): BackupFile {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('This file is not a Pursadari backup.');
+    }
+    if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+      throw new Error('This file is not a Pursadari backup.');
+    }
+    if (!Number.isInteger(data.version) || data.version < 1) {
+      throw new Error('This backup file is damaged.');
+    }
+    if (data.version > BACKUP_VERSION) {
+      throw new Error('This backup was made by a newer version of the app. Update the app to import it.');
+    }
+    if (!Array.isArray(data.favourites) || !Array.isArray(data.playlists) || !isObject(data.settings)) {
+      throw new Error('This backup file is damaged.');
+    }
+
+    const favourites: BackupFavourite[] = data.favourites.map((favourite: any) => {
+      if (!isObject(favourite) || !Number.isInteger(favourite.kalaamId)) {
+        throw new Error('This backup file is damaged.');
+      }
+      return {
+        kalaamId: favourite.kalaamId,
+        createdAt: stringOrNull(favourite.createdAt),
+        pinned: favourite.pinned === true,
+        pinnedAt: stringOrNull(favourite.pinnedAt),
+        pinOrder: Number.isInteger(favourite.pinOrder) ? favourite.pinOrder : null,
+      };
+    });
+
+    const playlists: BackupPlaylist[] = data.playlists.map((playlist: any) => {
+      if (!isObject(playlist) || typeof playlist.name !== 'string' || !playlist.name.trim() || !Array.isArray(playlist.items)) {
+        throw new Error('This backup file is damaged.');
+      }
+      return {
+        name: playlist.name.trim(),
+        createdAt: stringOrNull(playlist.createdAt),
+        updatedAt: stringOrNull(playlist.updatedAt),
+        items: playlist.items.map((item: any) => {
+          if (!isObject(item) || !Number.isInteger(item.kalaamId)) {
+            throw new Error('This backup file is damaged.');
+          }
+          return { kalaamId: item.kalaamId, addedAt: stringOrNull(item.addedAt) };
+        }),
+      };
+    });
+
+    // Unknown keys are dropped rather than written into settings
+    const settings: Record<string, string> = {};
+    for (const key of BACKED_UP_SETTINGS) {
+      if (typeof data.settings[key] === 'string') {
+        settings[key] = data.settings[key];
+      }
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: data.version,
+      exportedAt: stringOrNull(data.exportedAt) ?? '',
+      favourites,
+      playlists,
+      settings,
+    };
+  }
+
+  /**
+   * Restore a parsed backup. Settings are restored either way; `mode`
+   * decides what happens to the favourites and playlists already here.
+   */
+  static async restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<RestoreSummary> {
+    const db = database.ensureInitialized();
+
+    const referenced = new Set<number>([
+      ...backup.favourites.map(favourite => favourite.kalaamId),
+      ...backup.playlists.flatMap(playlist => playlist.items.map(item => item.kalaamId)),
+    ]);
+    const known = await knownKalaamIds(db, [...referenced]);
+
+    const statements: Statement[] = [];
+    if (mode === 'replace') {
+      statements.push(
+        ['DELETE FROM favourites WHERE kalaam_id >= 0', []],
+        ['DELETE FROM playlist_items', []],
+        ['DELETE FROM playlists', []],
+      );
+    }
+
+    const favourites = await favouriteStatements(db, backup.favourites, known, mode);
+    statements.push(...favourites.statements);
+
+    for (const playlist of backup.playlists) {
+      statements.push(...(await playlistStatements(db, playlist, known, mode)));
+    }
+
+    const settings = Object.entries(backup.settings);
+    for (const [key, value] of settings) {
+      statements.push(['INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', [key, value]]);
+    }
+
+    await db.sqlBatch(statements);
+
+    const summary: RestoreSummary = {
+      favourites: favourites.count,
+      playlists: backup.playlists.length,
+      settings: settings.length,
+      skippedKalaams: referenced.size - known.size,
+    };
+    console.log('[BackupService] Restored backup:', mode, summary);
+    return summary;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+// The ids, tombstones included, that the local kalaam table has
+async function knownKalaamIds(db: SQLiteDatabase, ids: number[]): Promise<Set<number>> {
+  const known = new Set<number>();
+  for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) {
+    const chunk = ids.slice(start, start + ID_CHUNK_SIZE);
+    const [result] = await db.executeSql(
+      `SELECT id FROM kalaam WHERE id IN (${chunk.map(() => '?').join(', ')})`,
+      chunk
+    );
+    for (let i = 0; i < result.rows.length; i++) {
+      known.add(result.rows.item(i).id);
+    }
+  }
+  return known;
+}
+
+// Favourites already here are left as they are. Pins are restored in the
+// backup's pin order while there's room under the pin limit.
+async function favouriteStatements(
+  db: SQLiteDatabase,
+  favourites: BackupFavourite[],
+  known: Set<number>,
+  mode: RestoreMode,
+): Promise<{ statements: Statement[]; count: number }> {
+  const existing = new Set<number>();
+  let pinCount = 0;
+  let maxPinOrder = 0;
+  if (mode === 'merge') {
+    const [result] = await db.executeSql(
+      'SELECT kalaam_id, pinned, pin_order FROM favourites WHERE kalaam_id >= 0'
+    );
+    for (let i = 0; i < result.rows.length; i++) {
+      const row = result.rows.item(i);
+      existing.add(row.kalaam_id);
+      if (row.pinned) {
+        pinCount++;
+        maxPinOrder = Math.max(maxPinOrder, row.pin_order ?? 0);
+      }
+    }
+  }
+
+  // Special content is favourited on every install already
+  const restorable = favourites.filter(
+    favourite => favourite.kalaamId >= 0 && known.has(favourite.kalaamId) && !existing.has(favourite.kalaamId)
+  );
+  const restored = new Set<number>();
+
+  const pinOrders = new Map<number, number>();
+  const pins = restorable
+    .filter(favourite => favourite.pinned)
+    .sort((a, b) => (a.pinOrder ?? Number.MAX_SAFE_INTEGER) - (b.pinOrder ?? Number.MAX_SAFE_INTEGER));
+  for (const favourite of pins) {
+    if (pinCount >= FavoritesService.MAX_PINS) break;
+    pinCount++;
+    pinOrders.set(favourite.kalaamId, ++maxPinOrder);
+  }
+
+  const statements: Statement[] = [];
+  for (const favourite of restorable) {
+    if (restored.has(favourite.kalaamId)) continue;
+    restored.add(favourite.kalaamId);
+    const pinOrder = pinOrders.get(favourite.kalaamId);
+    statements.push([
+      `INSERT INTO favourites (kalaam_id, created_at, pinned, pinned_at, pin_order)
+       VALUES (?, COALESCE(?, datetime('now')), ?, ?, ?)`,
+      [
+        favourite.kalaamId,
+        favourite.createdAt,
+        pinOrder !== undefined ? 1 : 0,
+        pinOrder !== undefined ? favourite.pinnedAt ?? favourite.createdAt : null,
+        pinOrder ?? null,
+      ],
+    ]);
+  }
+  return { statements, count: restored.size };
+}
+
+// A merge adds to a playlist of the same name, after its own items;
+// otherwise the playlist is created
+async function playlistStatements(
+  db: SQLiteDatabase,
+  playlist: BackupPlaylist,
+  known: Set<number>,
+  mode: RestoreMode,
+): Promise<Statement[]> {
+  let playlistId: number | null = null;
+  const present = new Set<number>();
+  let position = 0;
+  if (mode === 'merge') {
+    const [result] = await db.executeSql(
+      'SELECT id FROM playlists WHERE name = ? ORDER BY id ASC LIMIT 1',
+      [playlist.name]
+    );
+    if (result.rows.length > 0) {
+      playlistId = result.rows.item(0).id;
+      const [items] = await db.executeSql(
+        'SELECT kalaam_id, position FROM playlist_items WHERE playlist_id = ?',
+        [playlistId]
+      );
+      for (let i = 0; i < items.rows.length; i++) {
+        present.add(items.rows.item(i).kalaam_id);
+        position = Math.max(position, items.rows.item(i).position);
+      }
+    }
+  }
+
+  const statements: Statement[] = [];
+  if (playlistId === null) {
+    statements.push([
+      `INSERT INTO playlists (name, created_at, updated_at)
+       VALUES (?, COALESCE(?, datetime('now')), COALESCE(?, datetime('now')))`,
+      [playlist.name, playlist.createdAt, playlist.updatedAt],
+    ]);
+  }
+  // AUTOINCREMENT ids only grow, so a playlist just created has the highest
+  const idSql = playlistId === null ? '(SELECT MAX(id) FROM playlists)' : '?';
+  const idParams = playlistId === null ? [] : [playlistId];
+
+  for (const item of playlist.items) {
+    if (!known.has(item.kalaamId) || present.has(item.kalaamId)) continue;
+    present.add(item.kalaamId);
+    statements.push([
+      `INSERT INTO playlist_items (playlist_id, kalaam_id, position, added_at)
+       VALUES (${idSql}, ?, ?, COALESCE(?, datetime('now')))`,
+      [...idParams, item.kalaamId, ++position, item.addedAt],
+    ]);
+  }
+  return statements;
+}
+
+export default BackupService;
@@ -1,15 +1,43 @@
-import { Kalaam, KalaamListResponse } from '../types';
+import { SQLiteDatabase } from 'react-native-sqlite-storage';
+import {
+  FavouritesFacets,
+  FavouritesQuery,
+  FavouritesSort,
+  FavouritesUndo,
+  Kalaam,
+  KalaamListResponse,
+  PinResult,
+} from '../types';
 import database from '../database/Database';
 
+type Statement = [string, any[]];
+
+// After special content and pins, which stay on top
+const SORT_ORDER: Record<FavouritesSort, string> = {
+  added: 'f.created_at ASC',
+  title: 'k.title COLLATE NOCASE ASC',
+  reciter: 'k.reciter IS NULL, k.reciter COLLATE NOCASE ASC, k.title COLLATE NOCASE ASC',
+  masaib: 'k.masaib IS NULL, k.masaib COLLATE NOCASE ASC, k.title COLLATE NOCASE ASC',
+};
+
+// Stays under SQLite's limit on bound parameters
+const ID_CHUNK_SIZE = 500;
+
 
 /**
  * Favorites Service
  * 
  * This service manages user favorites using SQLite database table for persistence.
  * It provides methods to add, remove, check, and retrieve favorite kalaams.
- * Pinned items stay at the top, ordered by when they were pinned.
+ * Special content is always pinned and locked at the top. Users can pin up
+ * to MAX_PINS more items, which follow it in their own pin_order.
+ *
+ * Bulk changes run as one transaction and return a FavouritesUndo that
+ * undo() can put back.
  */
 class FavoritesService {
+  // User pins; special content doesn't count towards it
+  static readonly MAX_PINS = 3;
 
   /**
    * Add a kalaam to favorites
@@ -55,24 +83,29 @@ class FavoritesService {
   }
 
   /**
-   * Pin a kalaam (updates existing favorite or creates new one)
+   * Pin a kalaam, favouriting it first if needed. The favourite keeps its
+   * created_at; the pin goes last in pin_order.
    */
-  static async pinKalaam(kalaamId: number): Promise<boolean> {
+  static async pinKalaam(kalaamId: number): Promise<PinResult> {
     const db = database.ensureInitialized();
-    
-    // Check if already pinned
-    const [checkResult] = await db.executeSql('SELECT pinned FROM favourites WHERE kalaam_id = ?', [kalaamId.toString()]);
+    const stringId = kalaamId.toString();
+
+    const [checkResult] = await db.executeSql('SELECT pinned FROM favourites WHERE kalaam_id = ?', [stringId]);
     if (checkResult.rows.length > 0 && checkResult.rows.item(0).pinned) {
-      return false; // Already pinned
+      return 'already_pinned';
     }
-    
-    // Update existing favorite or insert new one
-    await db.executeSql(`
-      INSERT OR REPLACE INTO favourites (kalaam_id, created_at, pinned)
-      VALUES (?, datetime('now'), 1)
-    `, [kalaamId.toString()]);
-    
-    return true;
+
+    const [countResult] = await db.executeSql(
+      'SELECT COUNT(*) as count FROM favourites WHERE pinned = 1 AND kalaam_id >= 0'
+    );
+    if (countResult.rows.item(0).count >= FavoritesService.MAX_PINS) {
+      console.log('[FavoritesService] Pin limit reached, not pinning', stringId);
+      return 'limit_reached';
+    }
+
+    await db.sqlBatch(pinStatements(stringId));
+
+    return 'pinned';
   }
 
   /**
@@ -86,7 +119,122 @@ class FavoritesService {
     }
     
     const db = database.ensureInitialized();
-    await db.executeSql('UPDATE favourites SET pinned = 0 WHERE kalaam_id = ?', [kalaamId.toString()]);
+    await db.sqlBatch([unpinStatement(kalaamId.toString())]);
+  }
+
+  /**
+   * Reorder the user's pins: `kalaamIds` lists them top to bottom. Special
+   * content and unpinned ids are left alone.
+   */
+  static async reorderPins(kalaamIds: number[]): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.sqlBatch(
+      kalaamIds.map((kalaamId, index) => [
+        'UPDATE favourites SET pin_order = ? WHERE kalaam_id = ? AND pinned = 1 AND kalaam_id >= 0',
+        [index + 1, kalaamId.toString()],
+      ])
+    );
+  }
+
+  /**
+   * Unfavourite several kalaams at once. Special content is skipped.
+   */
+  static async removeFavorites(kalaamIds: number[]): Promise<FavouritesUndo> {
+    const db = database.ensureInitialized();
+    const undo = await snapshot(db, userKalaamIds(kalaamIds));
+    await db.sqlBatch(
+      undo.kalaamIds.map((kalaamId): Statement => ['DELETE FROM favourites WHERE kalaam_id = ?', [kalaamId]])
+    );
+    console.log('[FavoritesService] Removed', undo.kalaamIds.length, 'favorites');
+    return undo;
+  }
+
+  /**
+   * Pin several kalaams at once, in the given order. Nothing is pinned if
+   * they don't all fit under MAX_PINS; `undo` is null when nothing changed.
+   */
+  static async pinKalaams(kalaamIds: number[]): Promise<{ result: PinResult; undo: FavouritesUndo | null }> {
+    const db = database.ensureInitialized();
+    const undo = await snapshot(db, userKalaamIds(kalaamIds));
+    const pinned = new Set(undo.favourites.filter(row => row.pinned).map(row => row.kalaam_id));
+    const toPin = undo.kalaamIds.filter(kalaamId => !pinned.has(kalaamId));
+    if (toPin.length === 0) {
+      return { result: 'already_pinned', undo: null };
+    }
+
+    const [countResult] = await db.executeSql(
+      'SELECT COUNT(*) as count FROM favourites WHERE pinned = 1 AND kalaam_id >= 0'
+    );
+    if (countResult.rows.item(0).count + toPin.length > FavoritesService.MAX_PINS) {
+      console.log('[FavoritesService] Pin limit reached, not pinning', toPin.length, 'kalaams');
+      return { result: 'limit_reached', undo: null };
+    }
+
+    await db.sqlBatch(toPin.flatMap(kalaamId => pinStatements(kalaamId.toString())));
+    return { result: 'pinned', undo };
+  }
+
+  /**
+   * Unpin several kalaams at once. Special content is skipped.
+   */
+  static async unpinKalaams(kalaamIds: number[]): Promise<FavouritesUndo> {
+    const db = database.ensureInitialized();
+    const undo = await snapshot(db, userKalaamIds(kalaamIds));
+    await db.sqlBatch(undo.kalaamIds.map(kalaamId => unpinStatement(kalaamId.toString())));
+    return undo;
+  }
+
+  /**
+   * Move favourites into a playlist: they're added to its end, skipping any
+   * already there, and unfavourited. Special content is skipped.
+   */
+  static async moveToPlaylist(kalaamIds: number[], playlistId: number): Promise<FavouritesUndo> {
+    const db = database.ensureInitialized();
+    const undo = await snapshot(db, userKalaamIds(kalaamIds));
+
+    const [existing] = await db.executeSql(
+      'SELECT kalaam_id FROM playlist_items WHERE playlist_id = ?',
+      [playlistId]
+    );
+    const present = new Set<number>();
+    for (let i = 0; i < existing.rows.length; i++) {
+      present.add(existing.rows.item(i).kalaam_id);
+    }
+    const added = undo.kalaamIds.filter(kalaamId => !present.has(kalaamId));
+
+    await db.sqlBatch([
+      ...added.map((kalaamId): Statement => [
+        `INSERT INTO playlist_items (playlist_id, kalaam_id, position, added_at)
+         VALUES (?, ?, (
+           SELECT COALESCE(MAX(position), 0) + 1 FROM playlist_items WHERE playlist_id = ?
+         ), datetime('now'))`,
+        [playlistId, kalaamId, playlistId],
+      ]),
+      ["UPDATE playlists SET updated_at = datetime('now') WHERE id = ?", [playlistId]],
+      ...undo.kalaamIds.map((kalaamId): Statement => ['DELETE FROM favourites WHERE kalaam_id = ?', [kalaamId]]),
+    ]);
+    console.log('[FavoritesService] Moved', undo.kalaamIds.length, 'favorites to playlist', playlistId);
+    return { ...undo, playlistId, addedToPlaylist: added };
+  }
+
+  /**
+   * Put back what a bulk change did
+   */
+  static async undo(change: FavouritesUndo): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.sqlBatch([
+      ...change.kalaamIds.map((kalaamId): Statement => ['DELETE FROM favourites WHERE kalaam_id = ?', [kalaamId]]),
+      ...change.favourites.map((row): Statement => [
+        `INSERT INTO favourites (kalaam_id, created_at, pinned, pinned_at, pin_order)
+         VALUES (?, ?, ?, ?, ?)`,
+        [row.kalaam_id, row.created_at, row.pinned, row.pinned_at, row.pin_order],
+      ]),
+      ...(change.addedToPlaylist ?? []).map((kalaamId): Statement => [
+        'DELETE FROM playlist_items WHERE playlist_id = ? AND kalaam_id = ?',
+        [change.playlistId, kalaamId],
+      ]),
+    ]);
+    console.log('[FavoritesService] Undid change to', change.kalaamIds.length, 'favorites');
   }
 
   /**
@@ -99,43 +247,23 @@ class FavoritesService {
   }
 
   /**
-   * Get all pinned kalaams
+   * Get all pinned kalaams: special content, then the user's pins in order
    */
   static async getPinnedKalaams(): Promise<Kalaam[]> {
     try {
-      console.log('[FavoritesService] getPinnedKalaams called');
       const db = database.ensureInitialized();
-      
-      // Get pinned kalaams ordered by created_at
       const [result] = await db.executeSql(`
-        SELECT kalaam_id FROM favourites 
-        WHERE pinned = 1 
-        ORDER BY created_at ASC
+        SELECT k.* FROM favourites f
+        JOIN kalaam k ON k.id = f.kalaam_id
+        WHERE f.pinned = 1
+        ORDER BY f.kalaam_id < 0 DESC, f.pin_order ASC, f.kalaam_id DESC
       `);
 
-      console.log('[FavoritesService] Found', result.rows.length, 'pinned kalaams');
-
-      const pinnedIds: number[] = [];
+      const kalaams: Kalaam[] = [];
       for (let i = 0; i < result.rows.length; i++) {
-        const row = result.rows.item(i);
-        console.log('[FavoritesService] Pinned row:', row);
-        // Convert string ID back to number for getKalaamById
-        const numId = parseInt(row.kalaam_id);
-        pinnedIds.push(numId);
-        console.log('[FavoritesService] Converted pinned string ID', row.kalaam_id, 'to number ID', numId);
-      }
-
-      if (pinnedIds.length === 0) {
-        console.log('[FavoritesService] No pinned kalaams found');
-        return [];
+        kalaams.push(favouriteKalaam(result.rows.item(i)));
       }
-
-      // Fetch kalaams by IDs
-      console.log('[FavoritesService] Fetching pinned kalaams for IDs:', pinnedIds);
-      const promises = pinnedIds.map(id => database.getKalaamById(id));
-      const kalaams = (await Promise.all(promises)).filter((k): k is Kalaam => k !== null);
-      console.log('[FavoritesService] Successfully fetched', kalaams.length, 'pinned kalaams');
-      
+      console.log('[FavoritesService] Found', kalaams.length, 'pinned kalaams');
       return kalaams;
     } catch (error) {
       console.error('[FavoritesService] Error getting pinned kalaams:', error);
@@ -144,73 +272,132 @@ class FavoritesService {
   }
 
   /**
-   * Get all favorite kalaams with pinned items at the top
+   * Reciters and masaib that favourites can be filtered by
+   */
+  static async getFavoriteFacets(): Promise<FavouritesFacets> {
+    const db = database.ensureInitialized();
+    const facet = async (column: 'reciter' | 'masaib') => {
+      const [result] = await db.executeSql(`
+        SELECT DISTINCT k.${column} as value FROM favourites f
+        JOIN kalaam k ON k.id = f.kalaam_id
+        WHERE k.${column} IS NOT NULL AND k.${column} != ''
+        ORDER BY k.${column} COLLATE NOCASE ASC
+      `);
+      const values: string[] = [];
+      for (let i = 0; i < result.rows.length; i++) {
+        values.push(result.rows.item(i).value);
+      }
+      return values;
+    };
+    return { reciters: await facet('reciter'), masaib: await facet('masaib') };
+  }
+
+  /**
+   * Get a page of favorite kalaams: special content first, then pinned
+   * items in pin order, then the rest in `query.sort` order (by default,
+   * the order they were added), optionally filtered by reciter or masaib.
+   * `offset` is how many have already been loaded, so removing one before
+   * loading more doesn't skip anything.
    */
   static async getFavoriteKalaams(
     limit: number = 50,
-    startAfterDoc?: any
+    offset: number = 0,
+    query: FavouritesQuery = {}
   ): Promise<KalaamListResponse> {
+    const page = Math.floor(offset / limit) + 1;
     try {
-      console.log('[FavoritesService] getFavoriteKalaams called with limit:', limit);
+      console.log('[FavoritesService] getFavoriteKalaams called with limit:', limit, 'offset:', offset);
       const db = database.ensureInitialized();
-      
-      // Get favorites ordered by pinned first, then by created_at
-      const [result] = await db.executeSql(`
-        SELECT kalaam_id, pinned, created_at 
-        FROM favourites 
-        ORDER BY pinned DESC, created_at ASC
-        LIMIT ?
-      `, [limit]);
-
-      console.log('[FavoritesService] Found', result.rows.length, 'favorites in database');
 
-      const favoriteIds: number[] = [];
-      for (let i = 0; i < result.rows.length; i++) {
-        const row = result.rows.item(i);
-        console.log('[FavoritesService] Favorite row:', row);
-        // Convert string ID back to number for getKalaamById
-        const numId = parseInt(row.kalaam_id);
-        favoriteIds.push(numId);
-        console.log('[FavoritesService] Converted string ID', row.kalaam_id, 'to number ID', numId);
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (query.reciter) {
+        conditions.push('k.reciter = ?');
+        params.push(query.reciter);
       }
+      if (query.masaib) {
+        conditions.push('k.masaib = ?');
+        params.push(query.masaib);
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      // Favourites whose kalaam is gone entirely can't be shown, so neither
+      // the count nor the page includes them
+      const [countResult] = await db.executeSql(`
+        SELECT COUNT(*) as total FROM favourites f
+        JOIN kalaam k ON k.id = f.kalaam_id
+        ${where}
+      `, params);
+      const total = countResult.rows.item(0).total;
 
-      console.log('[FavoritesService] Favorite IDs to fetch:', favoriteIds);
-
-      if (favoriteIds.length === 0) {
-        console.log('[FavoritesService] No favorites found, returning empty result');
-        return {
-          kalaams: [],
-          total: 0,
-          page: 1,
-          limit,
-          lastVisibleDoc: null
-        };
+      const [result] = await db.executeSql(`
+        SELECT k.* FROM favourites f
+        JOIN kalaam k ON k.id = f.kalaam_id
+        ${where}
+        ORDER BY f.kalaam_id < 0 DESC, f.pinned DESC, f.pin_order ASC,
+          ${SORT_ORDER[query.sort ?? 'added']}, f.kalaam_id DESC
+        LIMIT ? OFFSET ?
+      `, [...params, limit, offset]);
+
+      const kalaams: Kalaam[] = [];
+      for (let i = 0; i < result.rows.length; i++) {
+        kalaams.push(favouriteKalaam(result.rows.item(i)));
       }
+      console.log('[FavoritesService] Fetched', kalaams.length, 'of', total, 'favorites');
 
-      // Fetch kalaams by IDs
-      console.log('[FavoritesService] Fetching kalaams for IDs:', favoriteIds);
-      const promises = favoriteIds.map(id => database.getKalaamById(id));
-      const kalaams = (await Promise.all(promises)).filter((k): k is Kalaam => k !== null);
-      console.log('[FavoritesService] Successfully fetched', kalaams.length, 'kalaams');
-
-      return {
-        kalaams,
-        total: kalaams.length,
-        page: 1,
-        limit,
-        lastVisibleDoc: null
-      };
+      return { kalaams, total, page, limit };
     } catch (error) {
       console.error('[FavoritesService] Error getting favorite kalaams:', error);
-      return {
-        kalaams: [],
-        total: 0,
-        page: 1,
-        limit,
-        lastVisibleDoc: null
-      };
+      return { kalaams: [], total: 0, page, limit };
+    }
+  }
+}
+
+// Tombstoned kalaams stay in favourites, flagged like getKalaamById does
+function favouriteKalaam(row: any): Kalaam {
+  return { ...row, deleted: !!row.deleted };
+}
+
+// Favourites it pins, keeping created_at; the pin goes last in pin_order
+function pinStatements(kalaamId: string): Statement[] {
+  return [
+    [`INSERT OR IGNORE INTO favourites (kalaam_id, created_at, pinned)
+      VALUES (?, datetime('now'), 0)`, [kalaamId]],
+    [`UPDATE favourites SET
+        pinned = 1,
+        pinned_at = datetime('now'),
+        pin_order = (
+          SELECT COALESCE(MAX(pin_order), 0) + 1 FROM favourites
+          WHERE pinned = 1 AND kalaam_id >= 0
+        )
+      WHERE kalaam_id = ?`, [kalaamId]],
+  ];
+}
+
+function unpinStatement(kalaamId: string): Statement {
+  return ['UPDATE favourites SET pinned = 0, pinned_at = NULL, pin_order = NULL WHERE kalaam_id = ?', [kalaamId]];
+}
+
+// Special content can't be unfavourited, unpinned or moved
+function userKalaamIds(kalaamIds: number[]): number[] {
+  return [...new Set(kalaamIds)].filter(kalaamId => kalaamId >= 0);
+}
+
+// The favourites rows for these kalaams as they are now
+async function snapshot(db: SQLiteDatabase, kalaamIds: number[]): Promise<FavouritesUndo> {
+  const favourites: FavouritesUndo['favourites'] = [];
+  for (let start = 0; start < kalaamIds.length; start += ID_CHUNK_SIZE) {
+    const chunk = kalaamIds.slice(start, start + ID_CHUNK_SIZE);
+    const [result] = await db.executeSql(
+      `SELECT kalaam_id, created_at, pinned, pinned_at, pin_order FROM favourites
+       WHERE kalaam_id IN (${chunk.map(() => '?').join(', ')})`,
+      chunk
+    );
+    for (let i = 0; i < result.rows.length; i++) {
+      favourites.push(result.rows.item(i));
     }
   }
+  return { kalaamIds, favourites };
 }
 
 export default FavoritesService;
\ No newline at end of file
@@ -1,32 +1,52 @@
 import { AppState, AppStateStatus } from 'react-native';
-import NetInfo from '@react-native-community/netinfo';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import { syncManager } from './SyncManager';
 import { notificationService } from './NotificationService';
-import { SyncResult } from '../types';
+import { SyncEvent, SyncResult } from '../types';
 
 export class ForegroundSyncManager {
   private isOnline: boolean = false;
+  // Online, and on Wi-Fi if the sync config asks for it
+  private canSync: boolean = false;
   private isInitialized: boolean = false;
 
   constructor() {
-    // Disabled auto-sync for first release
-    // this.setupNetworkListener();
-    // this.setupAppStateListener();
     this.initializeNotificationService();
   }
 
+  // Whether sync may use this connection under the sync config
+  private allowsSync(state: NetInfoState): boolean {
+    if (!state.isConnected) {
+      return false;
+    }
+    return !syncManager.getSyncConfig().wifiOnlySync || state.type === 'wifi';
+  }
+
+  // Foreground syncs follow foregroundSyncOnAppOpen; returns whether one started
+  private syncIfAllowed(reason: string): boolean {
+    if (!syncManager.getSyncConfig().foregroundSyncOnAppOpen) {
+      console.log(`[ForegroundSync] ${reason}, but foreground sync is turned off`);
+      return false;
+    }
+    console.log(`[ForegroundSync] ${reason}, performing sync...`);
+    this.performSync();
+    return true;
+  }
+
   private setupNetworkListener(): void {
     NetInfo.addEventListener(state => {
-      const wasOnline = this.isOnline;
+      const couldSync = this.canSync;
       this.isOnline = state.isConnected ?? false;
-      
-      console.log('[ForegroundSync] Network status changed:', this.isOnline);
-      
-      // If we just came online and weren't online before, perform sync
-      if (this.isOnline && !wasOnline) {
-        console.log('[ForegroundSync] Network became available, performing sync...');
-        notificationService.showNetworkNotification(true);
-        this.performSync();
+      this.canSync = this.allowsSync(state);
+
+      console.log('[ForegroundSync] Network status changed:', this.isOnline, state.type);
+
+      // Sync when a usable connection appears: back online, or onto Wi-Fi
+      // with Wi-Fi only sync on
+      if (this.canSync && !couldSync && AppState.currentState === 'active') {
+        if (this.syncIfAllowed('Network became available')) {
+          notificationService.showNetworkNotification(true);
+        }
       }
     });
   }
@@ -34,26 +54,21 @@ export class ForegroundSyncManager {
   private setupAppStateListener(): void {
     AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
       console.log('[ForegroundSync] App state changed to:', nextAppState);
-      
-      if (nextAppState === 'active' && this.isOnline) {
-        console.log('[ForegroundSync] App became active and online, performing sync...');
-        this.performSync();
+
+      if (nextAppState === 'active' && this.canSync) {
+        this.syncIfAllowed('App became active');
       }
     });
   }
 
-  async performSync(): Promise<SyncResult> {
+  async performSync(type: SyncEvent['type'] = 'foreground'): Promise<SyncResult> {
     try {
       console.log('[ForegroundSync] Starting foreground sync...');
-      const result = await syncManager.syncKalaamData();
+      const result = await syncManager.syncKalaamData(type);
       
       if (result.success) {
+        // SyncManager announces any new kalaams itself
         console.log(`[ForegroundSync] Sync completed: ${result.recordsProcessed} records processed`);
-        
-        // Only show notification if there are significant changes
-        if (result.recordsProcessed > 0 && (result.activeRecords > 0 || result.deletedRecords > 0)) {
-          notificationService.showSyncNotification(result);
-        }
       } else {
         console.error('[ForegroundSync] Sync failed:', result.error);
         // Only show error notification for actual failures, not for "already synced today"
@@ -77,7 +92,7 @@ export class ForegroundSyncManager {
 
   async performManualSync(): Promise<SyncResult> {
     console.log('[ForegroundSync] Manual sync requested');
-    return await this.performSync();
+    return await this.performSync('manual');
   }
 
   private async initializeNotificationService(): Promise<void> {
@@ -99,17 +114,26 @@ export class ForegroundSyncManager {
     }
 
     try {
+      await syncManager.loadSyncConfig();
       const netInfo = await NetInfo.fetch();
       this.isOnline = netInfo.isConnected ?? false;
+      this.canSync = this.allowsSync(netInfo);
+      this.setupNetworkListener();
+      this.setupAppStateListener();
       this.isInitialized = true;
       console.log('[ForegroundSync] Initialized with network status:', this.isOnline);
+
+      // The app has just opened
+      if (this.canSync) {
+        this.syncIfAllowed('App opened');
+      }
     } catch (error) {
       console.error('[ForegroundSync] Failed to initialize:', error);
     }
   }
 }
 
-// Export singleton instance (lazy-loaded to prevent auto-sync)
+// Export singleton instance; listeners start with initialize()
 let _foregroundSyncManager: ForegroundSyncManager | null = null;
 
 export const foregroundSyncManager = (): ForegroundSyncManager => {
@@ -0,0 +1,34 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { TabParamList } from '../types';
+
+/**
+ * Navigation from outside the React tree, e.g. a tapped notification.
+ *
+ * App.tsx attaches navigationRef to the NavigationContainer. A notification
+ * can be tapped before the container is mounted (a cold start shows the
+ * launch screen first), so the request is held until onReady.
+ */
+export const navigationRef = createNavigationContainerRef<TabParamList>();
+
+let pendingNavigation: (() => void) | null = null;
+
+function navigateWhenReady(navigate: () => void): void {
+  if (navigationRef.isReady()) {
+    navigate();
+  } else {
+    pendingNavigation = navigate;
+  }
+}
+
+// Called from the NavigationContainer's onReady
+export function flushPendingNavigation(): void {
+  const navigate = pendingNavigation;
+  pendingNavigation = null;
+  navigate?.();
+}
+
+export function openRecentlyAdded(): void {
+  navigateWhenReady(() =>
+    navigationRef.navigate('Home', { screen: 'RecentlyAdded' }),
+  );
+}
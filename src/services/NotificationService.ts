@@ -1,6 +1,10 @@
 import PushNotification from 'react-native-push-notification';
 import { Platform, PermissionsAndroid } from 'react-native';
 import { SyncResult } from '../types';
+import { openRecentlyAdded } from './NavigationService';
+
+// Carried in a notification's data to say where tapping it should go
+const RECENTLY_ADDED_LINK = 'recently-added';
 
 export class NotificationService {
   private static instance: NotificationService | null = null;
@@ -47,6 +51,9 @@ export class NotificationService {
         },
         onNotification: function (notification) {
           console.log('[NotificationService] Notification received:', notification);
+          if (notification.userInteraction && notification.data?.link === RECENTLY_ADDED_LINK) {
+            openRecentlyAdded();
+          }
         },
         onAction: function (notification) {
           console.log('[NotificationService] Action:', notification);
@@ -95,6 +102,32 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Announce kalaams a sync added; tapping opens Recently Added. Background
+   * runs may be headless, where initialize() never ran, so this doesn't
+   * wait for it: the channel is left from an earlier launch and the tap is
+   * handled when the app opens.
+   */
+  showNewKalaamsNotification(count: number): void {
+    try {
+      PushNotification.localNotification({
+        title: 'New Content Available',
+        message: `${count} new kalaam${count > 1 ? 's' : ''} added`,
+        playSound: false,
+        vibrate: false,
+        priority: 'low',
+        importance: 'low',
+        channelId: 'sync-notifications',
+        smallIcon: 'ic_notification',
+        largeIcon: 'ic_launcher',
+        userInfo: { link: RECENTLY_ADDED_LINK },
+      });
+      console.log('[NotificationService] New kalaams notification shown:', count);
+    } catch (error) {
+      console.error('[NotificationService] Failed to show notification:', error);
+    }
+  }
+
   showSyncNotification(result: SyncResult): void {
     if (!this.isInitialized) {
       console.warn('[NotificationService] Service not initialized');
@@ -110,11 +143,13 @@ export class NotificationService {
 
       let title = 'Data Updated';
       let message = '';
+      let link: string | undefined;
 
       if (result.success) {
         if (result.activeRecords > 0) {
           title = 'New Content Available';
           message = `${result.activeRecords} new kalaam${result.activeRecords > 1 ? 's' : ''} added`;
+          link = RECENTLY_ADDED_LINK;
         } else if (result.deletedRecords > 0) {
           title = 'Content Updated';
           message = `${result.deletedRecords} item${result.deletedRecords > 1 ? 's' : ''} removed`;
@@ -139,6 +174,7 @@ export class NotificationService {
           channelId: 'sync-notifications',
           smallIcon: 'ic_notification',
           largeIcon: 'ic_launcher',
+          userInfo: link ? { link } : undefined,
         });
         console.log('[NotificationService] Sync notification shown:', { title, message });
       } else {
@@ -0,0 +1,191 @@
+import { Kalaam, Playlist } from '../types';
+import database from '../database/Database';
+
+
+/**
+ * Playlist Service
+ *
+ * Named, ordered collections of kalaams, e.g. the nohas for one majlis.
+ * Items keep their own `position`; a kalaam appears at most once in a
+ * playlist. Kalaams removed from the catalogue stay in playlists, flagged
+ * like favourites.
+ */
+class PlaylistService {
+
+  /**
+   * Create an empty playlist and return its id
+   */
+  static async createPlaylist(name: string): Promise<number> {
+    const db = database.ensureInitialized();
+    const [result] = await db.executeSql(`
+      INSERT INTO playlists (name, created_at, updated_at)
+      VALUES (?, datetime('now'), datetime('now'))
+    `, [playlistName(name)]);
+    console.log('[PlaylistService] Created playlist', result.insertId);
+    return result.insertId;
+  }
+
+  /**
+   * Rename a playlist
+   */
+  static async renamePlaylist(playlistId: number, name: string): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.executeSql(
+      "UPDATE playlists SET name = ?, updated_at = datetime('now') WHERE id = ?",
+      [playlistName(name), playlistId]
+    );
+  }
+
+  /**
+   * Delete a playlist and its items. The kalaams themselves are untouched.
+   */
+  static async deletePlaylist(playlistId: number): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.sqlBatch([
+      ['DELETE FROM playlist_items WHERE playlist_id = ?', [playlistId]],
+      ['DELETE FROM playlists WHERE id = ?', [playlistId]],
+    ]);
+    console.log('[PlaylistService] Deleted playlist', playlistId);
+  }
+
+  /**
+   * All playlists, most recently changed first
+   */
+  static async getPlaylists(): Promise<Playlist[]> {
+    try {
+      const db = database.ensureInitialized();
+      const [result] = await db.executeSql(`
+        SELECT p.*, COUNT(i.kalaam_id) as item_count FROM playlists p
+        LEFT JOIN playlist_items i ON i.playlist_id = p.id
+        GROUP BY p.id
+        ORDER BY p.updated_at DESC, p.id DESC
+      `);
+
+      const playlists: Playlist[] = [];
+      for (let i = 0; i < result.rows.length; i++) {
+        playlists.push(result.rows.item(i));
+      }
+      return playlists;
+    } catch (error) {
+      console.error('[PlaylistService] Error getting playlists:', error);
+      return [];
+    }
+  }
+
+  /**
+   * One playlist, or null if it doesn't exist
+   */
+  static async getPlaylist(playlistId: number): Promise<Playlist | null> {
+    const db = database.ensureInitialized();
+    const [result] = await db.executeSql(`
+      SELECT p.*, COUNT(i.kalaam_id) as item_count FROM playlists p
+      LEFT JOIN playlist_items i ON i.playlist_id = p.id
+      WHERE p.id = ?
+      GROUP BY p.id
+    `, [playlistId]);
+    return result.rows.length > 0 ? result.rows.item(0) : null;
+  }
+
+  /**
+   * A playlist's kalaams, in playlist order
+   */
+  static async getPlaylistKalaams(playlistId: number): Promise<Kalaam[]> {
+    try {
+      const db = database.ensureInitialized();
+      const [result] = await db.executeSql(`
+        SELECT k.* FROM playlist_items i
+        JOIN kalaam k ON k.id = i.kalaam_id
+        WHERE i.playlist_id = ?
+        ORDER BY i.position ASC
+      `, [playlistId]);
+
+      const kalaams: Kalaam[] = [];
+      for (let i = 0; i < result.rows.length; i++) {
+        const row = result.rows.item(i);
+        kalaams.push({ ...row, deleted: !!row.deleted });
+      }
+      return kalaams;
+    } catch (error) {
+      console.error('[PlaylistService] Error getting playlist kalaams:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Ids of the playlists a kalaam is in
+   */
+  static async getPlaylistIdsFor(kalaamId: number): Promise<number[]> {
+    const db = database.ensureInitialized();
+    const [result] = await db.executeSql(
+      'SELECT playlist_id FROM playlist_items WHERE kalaam_id = ?',
+      [kalaamId]
+    );
+    const ids: number[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      ids.push(result.rows.item(i).playlist_id);
+    }
+    return ids;
+  }
+
+  /**
+   * Add a kalaam to the end of a playlist. Returns false if it was already
+   * there.
+   */
+  static async addKalaam(playlistId: number, kalaamId: number): Promise<boolean> {
+    const db = database.ensureInitialized();
+    const [result] = await db.executeSql(`
+      INSERT OR IGNORE INTO playlist_items (playlist_id, kalaam_id, position, added_at)
+      VALUES (?, ?, (
+        SELECT COALESCE(MAX(position), 0) + 1 FROM playlist_items WHERE playlist_id = ?
+      ), datetime('now'))
+    `, [playlistId, kalaamId, playlistId]);
+    if (result.rowsAffected === 0) {
+      return false;
+    }
+    await touch(playlistId);
+    return true;
+  }
+
+  /**
+   * Remove a kalaam from a playlist
+   */
+  static async removeKalaam(playlistId: number, kalaamId: number): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.executeSql(
+      'DELETE FROM playlist_items WHERE playlist_id = ? AND kalaam_id = ?',
+      [playlistId, kalaamId]
+    );
+    await touch(playlistId);
+  }
+
+  /**
+   * Reorder a playlist: `kalaamIds` lists its items top to bottom
+   */
+  static async reorderPlaylist(playlistId: number, kalaamIds: number[]): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.sqlBatch([
+      ...kalaamIds.map((kalaamId, index): [string, any[]] => [
+        'UPDATE playlist_items SET position = ? WHERE playlist_id = ? AND kalaam_id = ?',
+        [index + 1, playlistId, kalaamId],
+      ]),
+      ["UPDATE playlists SET updated_at = datetime('now') WHERE id = ?", [playlistId]],
+    ]);
+  }
+}
+
+function playlistName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Playlist name cannot be empty');
+  }
+  return trimmed;
+}
+
+async function touch(playlistId: number): Promise<void> {
+  await database.ensureInitialized().executeSql(
+    "UPDATE playlists SET updated_at = datetime('now') WHERE id = ?",
+    [playlistId]
+  );
+}
+
+export default PlaylistService;
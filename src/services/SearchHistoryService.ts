@@ -0,0 +1,155 @@
+import { SavedSearch, SearchFilters } from '../types';
+import database from '../database/Database';
+
+
+/**
+ * Search History Service
+ *
+ * Recent queries, newest first and deduplicated ignoring case, so the
+ * Search tab doesn't start blank; and saved searches, which keep a name,
+ * the query and its filters so they can be re-run or pinned to HomeScreen.
+ */
+class SearchHistoryService {
+  // Recent queries kept; older ones are dropped as new ones arrive
+  static readonly MAX_RECENT = 20;
+
+  /**
+   * Remember a query the user searched for
+   */
+  static async recordQuery(query: string): Promise<void> {
+    const text = query.trim();
+    if (!text) return;
+    const db = database.ensureInitialized();
+    await db.sqlBatch([
+      // REPLACE drops a same-query row in any case, keeping this spelling
+      ["INSERT OR REPLACE INTO search_history (query, searched_at) VALUES (?, datetime('now'))", [text]],
+      [
+        `DELETE FROM search_history WHERE rowid NOT IN (
+          SELECT rowid FROM search_history ORDER BY searched_at DESC, rowid DESC LIMIT ?
+        )`,
+        [SearchHistoryService.MAX_RECENT],
+      ],
+    ]);
+  }
+
+  /**
+   * Recent queries, newest first
+   */
+  static async getRecentQueries(): Promise<string[]> {
+    try {
+      const db = database.ensureInitialized();
+      const [result] = await db.executeSql(
+        'SELECT query FROM search_history ORDER BY searched_at DESC, rowid DESC'
+      );
+      const queries: string[] = [];
+      for (let i = 0; i < result.rows.length; i++) {
+        queries.push(result.rows.item(i).query);
+      }
+      return queries;
+    } catch (error) {
+      console.error('[SearchHistoryService] Error getting recent queries:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Forget one recent query
+   */
+  static async removeRecentQuery(query: string): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.executeSql('DELETE FROM search_history WHERE query = ?', [query]);
+  }
+
+  /**
+   * Forget every recent query
+   */
+  static async clearRecentQueries(): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.executeSql('DELETE FROM search_history');
+    console.log('[SearchHistoryService] Cleared recent queries');
+  }
+
+  /**
+   * Save a search under a name and return its id
+   */
+  static async saveSearch(name: string, query: string, filters: SearchFilters): Promise<number> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Search name cannot be empty');
+    }
+    const db = database.ensureInitialized();
+    const [result] = await db.executeSql(`
+      INSERT INTO saved_searches (name, query, filters, pinned, created_at)
+      VALUES (?, ?, ?, 0, datetime('now'))
+    `, [trimmed, query.trim(), JSON.stringify(filters)]);
+    console.log('[SearchHistoryService] Saved search', result.insertId);
+    return result.insertId;
+  }
+
+  /**
+   * Saved searches, pinned first, then newest first
+   */
+  static async getSavedSearches(): Promise<SavedSearch[]> {
+    try {
+      const db = database.ensureInitialized();
+      const [result] = await db.executeSql(
+        'SELECT * FROM saved_searches ORDER BY pinned DESC, created_at DESC, id DESC'
+      );
+      const searches: SavedSearch[] = [];
+      for (let i = 0; i < result.rows.length; i++) {
+        searches.push(savedSearch(result.rows.item(i)));
+      }
+      return searches;
+    } catch (error) {
+      console.error('[SearchHistoryService] Error getting saved searches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * One saved search, or null if it was deleted
+   */
+  static async getSavedSearch(id: number): Promise<SavedSearch | null> {
+    const db = database.ensureInitialized();
+    const [result] = await db.executeSql('SELECT * FROM saved_searches WHERE id = ?', [id]);
+    return result.rows.length > 0 ? savedSearch(result.rows.item(0)) : null;
+  }
+
+  /**
+   * Pin a saved search to HomeScreen, or unpin it
+   */
+  static async setPinned(id: number, pinned: boolean): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.executeSql('UPDATE saved_searches SET pinned = ? WHERE id = ?', [pinned ? 1 : 0, id]);
+  }
+
+  /**
+   * Delete a saved search
+   */
+  static async deleteSavedSearch(id: number): Promise<void> {
+    const db = database.ensureInitialized();
+    await db.executeSql('DELETE FROM saved_searches WHERE id = ?', [id]);
+    console.log('[SearchHistoryService] Deleted saved search', id);
+  }
+}
+
+// A saved_searches row as a SavedSearch; filters that no longer parse are
+// dropped rather than losing the search
+function savedSearch(row: any): SavedSearch {
+  let filters: SearchFilters = {};
+  try {
+    filters = JSON.parse(row.filters) ?? {};
+  } catch {
+    console.warn('[SearchHistoryService] Unreadable filters for saved search', row.id);
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    filters,
+    pinned: row.pinned === 1,
+    created_at: row.created_at,
+  };
+}
+
+export default SearchHistoryService;
@@ -1,9 +1,88 @@
 import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import NetInfo from '@react-native-community/netinfo';
 import database from '../database/Database';
 import { notificationService } from './NotificationService';
-import { Kalaam, SyncResult, SyncConfig } from '../types';
+import { KalaamRow, kalaamRowFromDocument, localKalaamId } from '../database/KalaamMapper';
+import {
+  SyncResult,
+  SyncConfig,
+  SyncWatermark,
+  SyncEvent,
+  SyncDiagnostics,
+  CdcChange,
+  CdcDocument,
+  CdcProgress,
+} from '../types';
+
+// Firestore caps a query at 500 documents per page
+const MAX_PAGE_SIZE = 500;
+
+// First retry waits this long, doubling for each further attempt
+const RETRY_BASE_DELAY_MS = 2000;
+
+const CDC_ACTIONS = ['INSERT', 'UPDATE', 'DELETE'];
+
+/**
+ * Why a CDC document can't be applied as-is, or null if it can. A change
+ * whose id has no local integer id (see localKalaamId) can't be stored.
+ */
+function findCdcGap(entry: CdcDocument): string | null {
+  if (!Array.isArray(entry.changes)) {
+    return `${entry.date}: no change list`;
+  }
+  if (entry.changes.length !== entry.total_changes) {
+    return `${entry.date}: expected ${entry.total_changes} changes, found ${entry.changes.length}`;
+  }
+  for (const change of entry.changes) {
+    if (localKalaamId(change.id) === null) {
+      return `${entry.date}: unmappable id "${change.id}"`;
+    }
+    if (!CDC_ACTIONS.includes(change.action)) {
+      return `${entry.date}: unknown action "${change.action}"`;
+    }
+  }
+  return null;
+}
 
-const defaultSyncConfig: SyncConfig = {
+/**
+ * A day missing from the fetched CDC log, or null if it runs on unbroken
+ * from `progress`. Days without changes have no document, so each document
+ * names the one logged before it: that must be the previous fetched
+ * document, or for the first one no later than `progress`.
+ */
+function findCdcDateGap(entries: CdcDocument[], progress: CdcProgress): string | null {
+  let before: string | null = null;
+  for (const entry of entries) {
+    if (entry.date !== progress.date) {
+      if (entry.previous_date === undefined) {
+        return `${entry.date}: no previous_date`;
+      }
+      const linked = before !== null
+        ? entry.previous_date === before
+        : (entry.previous_date ?? '') <= progress.date;
+      if (!linked) {
+        return `${entry.date}: follows ${entry.previous_date ?? 'nothing'}, which was not received`;
+      }
+    }
+    before = entry.date;
+  }
+  return null;
+}
+
+// Counts for a run, from each kalaam it wrote and whether that left it
+// deleted; a row written more than once counts once
+function syncResult(applied: Map<number, boolean>, newKalaams: number): SyncResult {
+  const deletedRecords = Array.from(applied.values()).filter(Boolean).length;
+  return {
+    success: true,
+    recordsProcessed: applied.size,
+    activeRecords: applied.size - deletedRecords,
+    deletedRecords,
+    newKalaams,
+  };
+}
+
+export const defaultSyncConfig: SyncConfig = {
   backgroundSyncInterval: 30,
   foregroundSyncOnAppOpen: true,
   wifiOnlySync: false,
@@ -12,16 +91,18 @@ const defaultSyncConfig: SyncConfig = {
 };
 
 export class SyncManager {
-  private firestore: typeof firestore;
+  private firestore: FirebaseFirestoreTypes.Module;
   private lastSyncTimestamp: number = 0;
   private syncConfig: SyncConfig = defaultSyncConfig;
+  private syncConfigLoaded: boolean = false;
+  private syncConfigListeners = new Set<(config: SyncConfig) => void>();
   private isSyncing: boolean = false; // Sync lock to prevent concurrent syncs
 
   constructor() {
     this.firestore = firestore();
   }
 
-  async syncKalaamData(): Promise<SyncResult> {
+  async syncKalaamData(type: SyncEvent['type'] = 'manual'): Promise<SyncResult> {
     // Prevent concurrent syncs
     if (this.isSyncing) {
       console.log('[SyncManager] Sync already in progress, skipping...');
@@ -34,28 +115,50 @@ export class SyncManager {
     }
 
     this.isSyncing = true;
+    const startedAt = Date.now();
+
+    try {
+      const result = await this.runSync(type);
+      await this.recordSyncEvent(type, startedAt, result);
+      return result;
+    } finally {
+      // Always release the sync lock
+      this.isSyncing = false;
+    }
+  }
 
+  private async runSync(type: SyncEvent['type']): Promise<SyncResult> {
     try {
-      console.log('[SyncManager] Starting sync...');
+      console.log(`[SyncManager] Starting ${type} sync...`);
 
       // Ensure database is initialized
       await database.init();
       console.log('[SyncManager] Database initialized for sync');
 
-      // Get last sync timestamp
-      this.lastSyncTimestamp = await database.getLastSyncTimestamp();
-      console.log('[SyncManager] Last sync timestamp:', this.lastSyncTimestamp);
-
+      if (!this.syncConfigLoaded) {
+        await this.loadSyncConfig();
+      }
 
-      // Check if sync already happened today
-      const now = Date.now();
-      const today = new Date().toDateString();
-      const lastSyncDate = new Date(this.lastSyncTimestamp).toDateString();
-      
-      if (today === lastSyncDate && this.lastSyncTimestamp > 0) {
+      const today = new Date().toISOString().split('T')[0];
+      if (type === 'background') {
+        // The OS wakes the task every 15-30 minutes or so; sync once the
+        // configured interval has passed, and quietly skip until then
+        const lastSyncAt = Number(await database.getSetting('last_sync_at')) || 0;
+        if (Date.now() - lastSyncAt < this.syncConfig.backgroundSyncInterval * 60 * 1000) {
+          console.log('[SyncManager] Background sync not due yet, skipping...');
+          return {
+            success: true,
+            recordsProcessed: 0,
+            activeRecords: 0,
+            deletedRecords: 0
+          };
+        }
+      } else if (await database.getSetting('last_sync_date') === today) {
         console.log('[SyncManager] Daily sync already completed today, skipping...');
-        // Show notification that sync already happened today
-        notificationService.showAlreadySyncedTodayNotification();
+        // Only someone who asked for a sync needs telling
+        if (type === 'manual') {
+          notificationService.showAlreadySyncedTodayNotification();
+        }
         return {
           success: true,
           recordsProcessed: 0,
@@ -64,78 +167,39 @@ export class SyncManager {
         };
       }
 
-      // Ensure we only fetch records with last_modified > last sync timestamp
-      let queryTimestamp = this.lastSyncTimestamp;
-      if (this.lastSyncTimestamp === 0) {
-        // For first sync (new app install), only get last 3 days to reduce initial load
-        const threeDaysAgo = now - (3 * 24 * 60 * 60 * 1000);
-        queryTimestamp = threeDaysAgo;
-        console.log('[SyncManager] First sync - limiting to last 3 days from bundling time');
-      } else {
-        // For daily syncs, use exact last sync timestamp to ensure delta sync
-        // Only fetch records modified AFTER our last sync
-        queryTimestamp = this.lastSyncTimestamp;
-        console.log('[SyncManager] Daily sync - fetching only records modified after last sync:', new Date(queryTimestamp).toISOString());
-      }
-
-      // CRITICAL: Only fetch records with last_modified > last sync timestamp
-      const query = this.firestore
-        .collection('kalaam')
-        .where('last_modified', '>', new Date(queryTimestamp))
-        .orderBy('last_modified')
-        .limit(50); // Reduced limit for better performance
-
-      const snapshot = await query.get();
-      const records = snapshot.docs.map(doc => ({
-        id: parseInt(doc.id),
-        ...doc.data()
-      })) as Kalaam[];
-
-      console.log(`[SyncManager] Found ${records.length} records to sync`);
-      console.log(`[SyncManager] Query timestamp: ${new Date(queryTimestamp).toISOString()}`);
-      console.log(`[SyncManager] Only fetching records with last_modified > ${new Date(queryTimestamp).toISOString()}`);
-      
-      // If no records to sync, return early
-      if (records.length === 0) {
-        console.log('[SyncManager] No new records to sync - all records are up to date');
+      const offline = await this.checkConnection();
+      if (offline) {
+        console.log(`[SyncManager] Skipping sync: ${offline}`);
         return {
-          success: true,
+          success: false,
           recordsProcessed: 0,
           activeRecords: 0,
-          deletedRecords: 0
+          deletedRecords: 0,
+          error: offline
         };
       }
-      
-      // Skip start notification to reduce notification spam
-      // notificationService.showSyncStartNotification(records.length);
-      
-      // Smart batching for large datasets
-      if (records.length >= 50) {
-        console.log('[SyncManager] Large dataset detected - using smart batching');
-        return await this.performBatchedSync(records);
-      }
 
-      // Filter out deleted records
-      const activeRecords = records.filter(record => !record.deleted);
-      const deletedRecords = records.filter(record => record.deleted);
+      // Every pull resumes from the stored progress, so a retry picks up
+      // where the failed attempt stopped
+      const result = await this.withRetry(() => this.pullPendingChanges());
 
-      console.log(`[SyncManager] Active records: ${activeRecords.length}, Deleted records: ${deletedRecords.length}`);
+      if (result.recordsProcessed === 0) {
+        console.log('[SyncManager] No new records to sync - all records are up to date');
+      }
 
-      // Update local database
-      await this.updateLocalDatabase(activeRecords, deletedRecords);
+      // Every run type can bring new kalaams, so the notice linking to
+      // them is posted here rather than by whichever manager started it
+      if (result.newKalaams) {
+        notificationService.showNewKalaamsNotification(result.newKalaams);
+      }
 
-      // Update sync timestamp
-      await database.updateSyncTimestamp();
-      
-      // Track sync attempt for daily limits
-      await database.incrementSyncAttempt();
+      await database.setSetting('last_sync_date', today);
+      await database.setSetting('last_sync_at', Date.now().toString());
 
-      const result: SyncResult = {
-        success: true,
-        recordsProcessed: records.length,
-        activeRecords: activeRecords.length,
-        deletedRecords: deletedRecords.length
-      };
+      // Only manual syncs count towards the daily manual sync limit
+      if (type === 'manual') {
+        await database.incrementSyncAttempt();
+      }
 
       console.log('[SyncManager] Sync completed successfully:', result);
       return result;
@@ -149,137 +213,274 @@ export class SyncManager {
         deletedRecords: 0,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
-    } finally {
-      // Always release the sync lock
-      this.isSyncing = false;
     }
   }
 
-  private async updateLocalDatabase(activeRecords: Kalaam[], deletedRecords: Kalaam[]): Promise<void> {
-    console.log('[SyncManager] Updating local database...');
-    
-    const totalRecords = activeRecords.length + deletedRecords.length;
-    let processedRecords = 0;
-    
-    // Process active records (upsert)
-    for (const record of activeRecords) {
-      await database.upsertKalaam(record);
-      processedRecords++;
-      
-      // Show progress notification every 10 records or at the end
-      if (processedRecords % 10 === 0 || processedRecords === totalRecords) {
-        // Disabled to prevent notification spam
-        // notificationService.showSyncProgressNotification(processedRecords, totalRecords);
-      }
+  // Log the run for the diagnostics screen; never fails the sync itself
+  private async recordSyncEvent(
+    type: SyncEvent['type'],
+    startedAt: number,
+    result: SyncResult,
+  ): Promise<void> {
+    try {
+      await database.recordSyncEvent({
+        type,
+        timestamp: startedAt,
+        duration: Date.now() - startedAt,
+        recordsProcessed: result.recordsProcessed,
+        activeRecords: result.activeRecords,
+        deletedRecords: result.deletedRecords,
+        success: result.success,
+        error: result.error,
+      });
+    } catch (error) {
+      console.error('[SyncManager] Failed to record sync event:', error);
     }
+  }
 
-    // Process deleted records (remove from local database)
-    for (const record of deletedRecords) {
-      await database.deleteKalaam(record.id);
-      processedRecords++;
-      
-      // Show progress notification every 10 records or at the end
-      if (processedRecords % 10 === 0 || processedRecords === totalRecords) {
-        // Disabled to prevent notification spam
-        // notificationService.showSyncProgressNotification(processedRecords, totalRecords);
-      }
+  // Why sync can't run on the current connection, or null if it can
+  private async checkConnection(): Promise<string | null> {
+    const state = await NetInfo.fetch();
+    if (!state.isConnected) {
+      return 'No network connection';
     }
-
-    console.log('[SyncManager] Local database updated successfully');
+    if (this.syncConfig.wifiOnlySync && state.type !== 'wifi') {
+      return 'Wi-Fi only sync is on and the device is not on Wi-Fi';
+    }
+    return null;
   }
 
-  private async performBatchedSync(records: Kalaam[]): Promise<SyncResult> {
-    console.log('[SyncManager] Performing batched sync for large dataset');
-    
-    const batchSize = 10; // Process 10 records at a time
-    const activeRecords = records.filter(record => !record.deleted);
-    const deletedRecords = records.filter(record => record.deleted);
-    
-    let processedCount = 0;
-    const totalRecords = records.length;
-    
-    // Process active records in batches
-    for (let i = 0; i < activeRecords.length; i += batchSize) {
-      const batch = activeRecords.slice(i, i + batchSize);
-      
-      for (const record of batch) {
-        await database.upsertKalaam(record);
-        processedCount++;
-        
-        // Show progress every 5 records
-        if (processedCount % 5 === 0) {
-          // Disabled to prevent notification spam
-          // notificationService.showSyncProgressNotification(processedCount, totalRecords);
+  // Run fn, retrying failures up to maxRetryAttempts times with exponential backoff
+  private async withRetry<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (attempt >= this.syncConfig.maxRetryAttempts) {
+          throw error;
         }
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        console.warn(`[SyncManager] Sync attempt ${attempt + 1} failed, retrying in ${delay}ms:`, error);
+        await new Promise<void>(resolve => setTimeout(resolve, delay));
       }
-      
-      // Small delay between batches to prevent overwhelming the system
-      await new Promise(resolve => setTimeout(resolve, 100));
     }
-    
-    // Process deleted records in batches
-    for (let i = 0; i < deletedRecords.length; i += batchSize) {
-      const batch = deletedRecords.slice(i, i + batchSize);
-      
-      for (const record of batch) {
-        await database.deleteKalaam(record.id);
-        processedCount++;
-        
-        // Show progress every 5 records
-        if (processedCount % 5 === 0) {
-          // Disabled to prevent notification spam
-          // notificationService.showSyncProgressNotification(processedCount, totalRecords);
-        }
-      }
-      
-      // Small delay between batches
-      await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  private async pullPendingChanges(): Promise<SyncResult> {
+    // Resume from the last change we applied
+    let watermark = await database.getSyncWatermark();
+    this.lastSyncTimestamp = watermark.seconds * 1000;
+    console.log('[SyncManager] Sync watermark:', watermark);
+
+    if (this.lastSyncTimestamp === 0) {
+      // For first sync (new app install), only get last 3 days to reduce initial load
+      const threeDaysAgo = Date.now() - (3 * 24 * 60 * 60 * 1000);
+      watermark = { seconds: Math.floor(threeDaysAgo / 1000), nanoseconds: 0, docId: '' };
+      console.log('[SyncManager] First sync - limiting to last 3 days from bundling time');
+    }
+
+    return this.pullCdcChanges(watermark);
+  }
+
+  // Stored CDC progress or, without it, the day of the last applied change
+  private async getCdcStartingPoint(watermark: SyncWatermark): Promise<CdcProgress | null> {
+    const stored = await database.getCdcProgress();
+    if (stored) {
+      return stored;
+    }
+    if (watermark.seconds === 0) {
+      return null;
     }
-    
-    // Update sync timestamp
-    await database.updateSyncTimestamp();
-    await database.incrementSyncAttempt();
-    
-    console.log('[SyncManager] Batched sync completed successfully');
     return {
-      success: true,
-      recordsProcessed: records.length,
-      activeRecords: activeRecords.length,
-      deletedRecords: deletedRecords.length
+      date: new Date(watermark.seconds * 1000).toISOString().split('T')[0],
+      applied: 0,
     };
   }
 
-  async performFullSync(): Promise<SyncResult> {
-    try {
-      console.log('[SyncManager] Starting full sync...');
-      
-      // Get all records from Firebase
-      const query = this.firestore
-        .collection('kalaam')
-        .where('deleted', '==', false)
-        .orderBy('last_modified');
+  private async fetchCdcEntries(progress: CdcProgress): Promise<CdcDocument[]> {
+    const snapshot = await this.firestore
+      .collection('kalaam_cdc')
+      .where('date', '>=', progress.date)
+      .orderBy('date')
+      .get();
+    return snapshot.docs.map(doc => doc.data() as CdcDocument);
+  }
 
-      const snapshot = await query.get();
-      const records = snapshot.docs.map(doc => ({
-        id: parseInt(doc.id),
-        ...doc.data()
-      })) as Kalaam[];
+  /**
+   * Replay the daily `kalaam_cdc` change logs after our CDC progress, oldest
+   * first and each change in order. A document's changes commit in one
+   * transaction together with the progress past them. The last_modified
+   * query then runs as well, for edits and tombstones written straight to
+   * the kalaam collection; it also carries the watermark forward.
+   *
+   * When the log can't be trusted to be complete (a day is missing, a
+   * document's change count doesn't add up, or a change can't be mapped onto
+   * a local row) the last_modified query runs first instead. Approved
+   * submissions are only ever written to the log, so its inserts and updates
+   * are still replayed after that, wherever they are newer than the row.
+   */
+  private async pullCdcChanges(watermark: SyncWatermark): Promise<SyncResult> {
+    const progress = await this.getCdcStartingPoint(watermark);
+    if (!progress) {
+      console.log('[SyncManager] No CDC starting point - falling back to last_modified sync');
+      return this.pullChanges(watermark);
+    }
 
-      console.log(`[SyncManager] Found ${records.length} records for full sync`);
+    const entries = await this.fetchCdcEntries(progress);
 
-      // Update local database
-      await this.updateLocalDatabase(records, []);
+    // Check the whole log before applying any of it
+    const gap = findCdcDateGap(entries, progress) ?? entries.map(findCdcGap).find(Boolean);
+    const applied = new Map<number, boolean>();
+    let newCount = 0;
 
-      // Update sync timestamp
-      await database.updateSyncTimestamp();
+    if (gap) {
+      console.log(`[SyncManager] CDC log has a gap (${gap}) - running last_modified sync first`);
+      newCount += (await this.pullChanges(watermark, applied)).newKalaams ?? 0;
+    }
 
-      const result: SyncResult = {
-        success: true,
-        recordsProcessed: records.length,
-        activeRecords: records.length,
-        deletedRecords: 0
+    for (const entry of entries) {
+      newCount += await this.applyCdcEntry(entry, progress, !gap, applied);
+    }
+
+    if (!gap) {
+      newCount += (await this.pullChanges(watermark, applied)).newKalaams ?? 0;
+    }
+
+    return syncResult(applied, newCount);
+  }
+
+  /**
+   * Apply one CDC document's changes after `progress`, together with the
+   * progress past them, and return how many kalaams it added. Only each
+   * kalaam's final state is written, and never over a stored row modified
+   * after the change was approved. From an untrusted log only inserts and
+   * updates of mappable ids are applied; deletes come from the kalaam
+   * collection's tombstones.
+   */
+  private async applyCdcEntry(
+    entry: CdcDocument,
+    progress: CdcProgress,
+    trusted: boolean,
+    applied: Map<number, boolean>,
+  ): Promise<number> {
+    const changes = Array.isArray(entry.changes) ? entry.changes : [];
+    const pending = changes.slice(entry.date === progress.date ? progress.applied : 0);
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const finalState = new Map<number, CdcChange>();
+    for (const change of pending) {
+      const id = localKalaamId(change.id);
+      if (id !== null && CDC_ACTIONS.includes(change.action)) {
+        finalState.set(id, change);
+      }
+    }
+
+    const stored = await database.getLastModified(Array.from(finalState.keys()));
+    const upserts: KalaamRow[] = [];
+    const deletes: number[] = [];
+    finalState.forEach((change, id) => {
+      const storedAt = stored.get(id);
+      if (storedAt && change.approved_at && Date.parse(storedAt) > Date.parse(change.approved_at)) {
+        return;
+      }
+      if (change.action !== 'DELETE') {
+        upserts.push(kalaamRowFromDocument(change.id, { ...change, last_modified: change.approved_at })!);
+      } else if (trusted) {
+        deletes.push(id);
+      }
+    });
+
+    console.log(`[SyncManager] CDC ${entry.date}: ${pending.length} changes - active: ${upserts.length}, deleted: ${deletes.length}`);
+
+    const added = await database.applyChanges(upserts, deletes, {
+      cdc: { date: entry.date, applied: changes.length },
+    });
+    upserts.forEach(row => applied.set(row.id, false));
+    deletes.forEach(id => applied.set(id, true));
+    return added;
+  }
+
+  /**
+   * Page through every source change after the watermark, ordered by
+   * (last_modified, document id). Each page is applied in one transaction
+   * together with a watermark at its last document, so a crash resumes from
+   * the last completed page. Edits made while this runs sort after the cursor and are
+   * picked up by a later page or the next sync. Each row written is noted
+   * in `applied`.
+   */
+  private async pullChanges(
+    from: SyncWatermark,
+    applied: Map<number, boolean> = new Map(),
+  ): Promise<SyncResult> {
+    const pageSize = Math.min(Math.max(1, this.syncConfig.batchSize), MAX_PAGE_SIZE);
+    let cursor = from;
+    let newCount = 0;
+
+    while (true) {
+      let query = this.firestore
+        .collection('kalaam')
+        .orderBy('last_modified')
+        .orderBy(firestore.FieldPath.documentId());
+      const after = new firestore.Timestamp(cursor.seconds, cursor.nanoseconds);
+      // Document ids can't be empty, so a timestamp-only cursor starts after
+      // every document at that instant
+      query = cursor.docId ? query.startAfter(after, cursor.docId) : query.startAfter(after);
+
+      const snapshot = await query.limit(pageSize).get();
+      if (snapshot.empty) {
+        break;
+      }
+
+      const records: KalaamRow[] = [];
+      for (const doc of snapshot.docs) {
+        const record = kalaamRowFromDocument(doc.id, doc.data());
+        if (record) {
+          records.push(record);
+        } else {
+          console.warn(`[SyncManager] Skipping kalaam with unmappable id "${doc.id}"`);
+        }
+      }
+
+      // Filter out deleted records
+      const activeRecords = records.filter(record => !record.deleted);
+      const deletedRecords = records.filter(record => record.deleted);
+
+      console.log(`[SyncManager] Page of ${records.length} records - active: ${activeRecords.length}, deleted: ${deletedRecords.length}`);
+
+      const last = snapshot.docs[snapshot.docs.length - 1];
+      const lastModified: FirebaseFirestoreTypes.Timestamp = last.get('last_modified');
+      cursor = {
+        seconds: lastModified.seconds,
+        nanoseconds: lastModified.nanoseconds,
+        docId: last.id,
       };
 
+      // The page and the watermark past it commit together
+      newCount += await database.applyChanges(
+        activeRecords,
+        deletedRecords.map(record => record.id),
+        { watermark: cursor },
+      );
+
+      records.forEach(record => applied.set(record.id, Boolean(record.deleted)));
+
+      if (snapshot.size < pageSize) {
+        break;
+      }
+    }
+
+    return syncResult(applied, newCount);
+  }
+
+  async performFullSync(): Promise<SyncResult> {
+    try {
+      console.log('[SyncManager] Starting full sync...');
+
+      // Replay every source record from the beginning
+      const result = await this.pullChanges({ seconds: 0, nanoseconds: 0, docId: '' });
+
       console.log('[SyncManager] Full sync completed successfully:', result);
       return result;
 
@@ -304,17 +505,76 @@ export class SyncManager {
     const lastSync = await database.getLastSyncTimestamp();
     const recordCount = await database.getKalaamCount();
     const { attempts } = await database.getDailySyncAttempts();
+    const network = await NetInfo.fetch();
     
     return {
       lastSync,
       recordCount,
-      isOnline: true, // TODO: Implement proper network check
+      isOnline: network.isConnected ?? false,
       dailyAttempts: attempts
     };
   }
 
+  // Everything the diagnostics screen shows
+  async getDiagnostics(): Promise<SyncDiagnostics> {
+    await database.init();
+    const watermark = await database.getSyncWatermark();
+    const network = await NetInfo.fetch();
+
+    // Pending CDC days need the server; report null rather than fail offline
+    let pendingCdcDays: string[] | null = null;
+    const progress = await this.getCdcStartingPoint(watermark);
+    if (progress && network.isConnected) {
+      try {
+        const entries = await this.fetchCdcEntries(progress);
+        pendingCdcDays = entries
+          .filter(entry => entry.date !== progress.date || progress.applied < entry.changes.length)
+          .map(entry => entry.date);
+      } catch (error) {
+        console.error('[SyncManager] Failed to list pending CDC days:', error);
+      }
+    }
+
+    return {
+      watermark,
+      cdcProgress: await database.getCdcProgress(),
+      pendingCdcDays,
+      network: {
+        isConnected: network.isConnected ?? false,
+        type: network.type,
+      },
+      recordCount: await database.getKalaamCount(),
+      lastSyncDate: await database.getSetting('last_sync_date'),
+      events: await database.getSyncEvents(),
+    };
+  }
+
+  // Load the config saved by SettingsContext; fields it lacks keep their defaults
+  async loadSyncConfig(): Promise<SyncConfig> {
+    await database.init();
+    const stored = await database.getSetting('sync_config');
+    this.syncConfigLoaded = true;
+    if (stored) {
+      try {
+        this.setSyncConfig(JSON.parse(stored));
+      } catch (error) {
+        console.error('[SyncManager] Failed to parse sync config:', error);
+      }
+    }
+    return this.syncConfig;
+  }
+
   setSyncConfig(config: Partial<SyncConfig>): void {
     this.syncConfig = { ...this.syncConfig, ...config };
+    this.syncConfigListeners.forEach(listener => listener(this.syncConfig));
+  }
+
+  // Called with the new config whenever it changes; returns an unsubscribe
+  onSyncConfigChange(listener: (config: SyncConfig) => void): () => void {
+    this.syncConfigListeners.add(listener);
+    return () => {
+      this.syncConfigListeners.delete(listener);
+    };
   }
 
   getSyncConfig(): SyncConfig {
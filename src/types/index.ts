@@ -1,3 +1,5 @@
+import { NavigatorScreenParams } from '@react-navigation/native';
+
 export interface Kalaam {
   id: number;
   title: string;
@@ -13,6 +15,12 @@ export interface Kalaam {
   deleted?: boolean;
 }
 
+// A kalaam sync inserted or updated, for the "Recently added" feed
+export interface RecentKalaam extends Kalaam {
+  change_type: 'added' | 'updated';
+  changed_at: number; // when sync applied it (ms)
+}
+
 export interface MasaibGroup {
   masaib: string;
   count: number;
@@ -28,6 +36,45 @@ export interface ReciterGroup {
   count: number;
 }
 
+// Narrows a search; set fields combine with AND
+export interface SearchFilters {
+  reciter?: string;
+  poet?: string;
+  masaib?: string;
+  hasEnglish?: boolean;
+  hasUrdu?: boolean;
+  hasVideo?: boolean;
+}
+
+// A named search with its filters, from SearchHistoryService. Pinned ones
+// are also offered on HomeScreen.
+export interface SavedSearch {
+  id: number;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  pinned: boolean;
+  created_at: string;
+}
+
+// Result counts per value for a search, from Database.getSearchFacets
+export interface SearchFacets {
+  reciters: ReciterGroup[];
+  poets: PoetGroup[];
+  masaib: MasaibGroup[];
+}
+
+export type SuggestionKind = 'title' | 'reciter' | 'poet' | 'masaib';
+
+// A type-ahead suggestion from Database.getSuggestions: count is how many
+// kalaams it leads to, and kalaamId one of them (the only one when count is 1)
+export interface SearchSuggestion {
+  kind: SuggestionKind;
+  value: string;
+  count: number;
+  kalaamId: number;
+}
+
 export interface KalaamListResponse {
   kalaams: Kalaam[];
   total: number;
@@ -36,21 +83,126 @@ export interface KalaamListResponse {
   lastVisibleDoc?: any; // Add this to return the last document snapshot for cursor-based pagination
 }
 
+export type LyricsLanguage = 'urdu' | 'english';
+
+// The lyric line that best matches a search; `line` indexes the lyrics split
+// into lines and `matches` are the matching words' offsets in `text`
+export interface SearchSnippet {
+  language: LyricsLanguage;
+  line: number;
+  text: string;
+  matches: Array<{ start: number; end: number }>;
+}
+
+export interface SearchResult extends Kalaam {
+  snippet: SearchSnippet | null;
+}
+
+export interface SearchResponse extends KalaamListResponse {
+  kalaams: SearchResult[];
+}
+
 export interface KalaamDetailResponse {
   kalaam: Kalaam;
 }
 
+export interface Playlist {
+  id: number;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  item_count: number;
+}
+
+// Backup file written by BackupService. `version` bumps whenever the shape
+// changes; older versions must stay importable.
+export interface BackupFile {
+  format: 'pursadari-backup';
+  version: number;
+  exportedAt: string;
+  favourites: BackupFavourite[];
+  playlists: BackupPlaylist[];
+  settings: Record<string, string>;
+}
+
+export interface BackupFavourite {
+  kalaamId: number;
+  createdAt: string | null;
+  pinned: boolean;
+  pinnedAt: string | null;
+  pinOrder: number | null;
+}
+
+export interface BackupPlaylist {
+  name: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+  items: { kalaamId: number; addedAt: string | null }[];
+}
+
+// merge keeps what's on the device and adds the backup; replace swaps
+// favourites and playlists for the backup's
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  favourites: number;
+  playlists: number;
+  settings: number;
+  // Distinct kalaam ids the local catalogue doesn't have
+  skippedKalaams: number;
+}
+
+// Outcome of FavoritesService.pinKalaam
+export type PinResult = 'pinned' | 'already_pinned' | 'limit_reached';
+
+// How FavouritesScreen lists favourites. Special content and pins stay on
+// top; `sort` orders the rest.
+export type FavouritesSort = 'added' | 'title' | 'reciter' | 'masaib';
+
+export interface FavouritesQuery {
+  sort?: FavouritesSort;
+  reciter?: string;
+  masaib?: string;
+}
+
+// Reciters and masaib among the favourites, for FavouritesQuery filters
+export interface FavouritesFacets {
+  reciters: string[];
+  masaib: string[];
+}
+
+// What a bulk favourites change touched, so FavoritesService.undo can put
+// it back: the favourites rows as they were, and any playlist items added
+export interface FavouritesUndo {
+  kalaamIds: number[];
+  favourites: {
+    kalaam_id: number;
+    created_at: string | null;
+    pinned: number;
+    pinned_at: string | null;
+    pin_order: number | null;
+  }[];
+  playlistId?: number;
+  addedToPlaylist?: number[];
+}
+
 export type RootStackParamList = {
   Tabs: undefined;
   Masaib: { masaib: string };
   Poet: { poet: string };
   Reciter: { reciter: string };
-  Kalaam: { id: number };
+  // playlistId plays through that playlist from this kalaam; line opens the
+  // lyrics in that language, scrolled to that line
+  Kalaam: { id: number; playlistId?: number; line?: { language: LyricsLanguage; index: number } };
+  RecentlyAdded: undefined;
+  Playlists: undefined;
+  Playlist: { playlistId: number };
 };
 
 export type TabParamList = {
-  Home: undefined;
-  Search: undefined;
+  Home: NavigatorScreenParams<RootStackParamList> | undefined;
+  // savedSearchId runs that saved search when the tab opens
+  Search: { savedSearchId?: number } | undefined;
   AddLyrics: undefined;
   Favourites: undefined;
   Settings: undefined;
@@ -62,9 +214,59 @@ export interface SyncResult {
   recordsProcessed: number;
   activeRecords: number;
   deletedRecords: number;
+  newKalaams?: number; // upserted kalaams that weren't stored before
   error?: string;
 }
 
+// Position of the last source change applied locally. Firestore pages by
+// (last_modified, document id), so both are needed to resume without skipping
+// or re-reading documents that share a timestamp.
+export interface SyncWatermark {
+  seconds: number;
+  nanoseconds: number;
+  docId: string; // '' when only the timestamp is known
+}
+
+// One change in a daily `kalaam_cdc` document
+export interface CdcChange {
+  id: string | number;
+  action: 'INSERT' | 'UPDATE' | 'DELETE';
+  title?: string;
+  lyrics_urdu?: string;
+  lyrics_eng?: string;
+  poet?: string;
+  reciter?: string;
+  masaib?: string;
+  yt_link?: string;
+  submitted_by?: string;
+  submitted_at?: string;
+  approved_at?: string;
+}
+
+// A `kalaam_cdc/{YYYY-MM-DD}` document, written once per day with changes
+export interface CdcDocument {
+  date: string;
+  // Date of the document logged before this one; null for the first
+  previous_date?: string | null;
+  timestamp: string;
+  changes: CdcChange[];
+  total_changes: number;
+  processed?: boolean;
+}
+
+// How far the CDC log has been applied: every document before `date`, and
+// the first `applied` changes of the `date` document
+export interface CdcProgress {
+  date: string;
+  applied: number;
+}
+
+// Sync positions stored alongside a batch of changes
+export interface SyncProgress {
+  watermark?: SyncWatermark;
+  cdc?: CdcProgress;
+}
+
 export interface SyncConfig {
   backgroundSyncInterval: number; // minutes
   foregroundSyncOnAppOpen: boolean;
@@ -75,8 +277,21 @@ export interface SyncConfig {
 
 export interface SyncEvent {
   type: 'background' | 'foreground' | 'manual';
+  timestamp: number; // when the run started (ms)
   recordsProcessed: number;
+  activeRecords: number;
+  deletedRecords: number;
   duration: number;
   success: boolean;
   error?: string;
 }
+
+export interface SyncDiagnostics {
+  watermark: SyncWatermark;
+  cdcProgress: CdcProgress | null;
+  pendingCdcDays: string[] | null; // null when the server couldn't be asked
+  network: { isConnected: boolean; type: string };
+  recordCount: number;
+  lastSyncDate: string | null;
+  events: SyncEvent[];
+}
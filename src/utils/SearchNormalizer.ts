@@ -0,0 +1,133 @@
+/**
+ * Search text normalisation
+ *
+ * Shared by the search index builder and the query side, so stored text and
+ * typed queries always reduce to the same keys. Any change to these rules
+ * must come with a bump of SEARCH_INDEX_VERSION so the index is rebuilt.
+ */
+
+const VOWELS = 'aeiou';
+
+// Word-level canonicalizations for ultra-common tokens
+const WORD_EQUIV: Array<[RegExp, string]> = [
+  [/\b(main|mein|mei|mn)\b/g, 'mai'],
+  [/\b(nahin|nahi|nahee|nai)\b/g, 'nahi'],
+  [/\b(hain+)\b/g, 'hain'],
+  [/\b(kya|kia|ky[aa])\b/g, 'kya'],
+  [/\b(mera+a*h*)\b/g, 'mera'],
+];
+
+// Ordered character/digraph rules (apply in sequence)
+const SEQ_RULES: Array<[RegExp, string]> = [
+  // drop punctuation, keep spaces
+  [/[^\w\s]/g, ' '],
+
+  // digraphs/phones
+  [/kh/g, 'x'],
+  [/gh/g, 'g'],
+  [/zh/g, 'z'],
+  [/ph/g, 'f'],
+  [/th/g, 't'],
+  [/dh/g, 'd'],
+  [/bh/g, 'b'],
+  [/q/g, 'k'],
+
+  // c → k before a/o/u; c → s before e/i/y
+  [/c(?=[aou])/g, 'k'],
+  [/c(?=[eiy])/g, 's'],
+
+  // long vowels
+  [/aa+/g, 'a'],
+  [/(ee+|ii+)/g, 'i'],
+  [/oo+/g, 'u'],
+
+  // word-final ay/ey → e (nohay, nohey, nohe)
+  [/(ay|ey)\b/g, 'e'],
+
+  // ai/ei/ay family → ai
+  [/(ei|ay)/g, 'ai'],
+
+  // terminal h after a vowel → drop
+  [new RegExp(`([${VOWELS}])h\\b`, 'g'), '$1'],
+
+  // collapse repeats: vowels to max 2, consonants to 1
+  [new RegExp(`([${VOWELS}])\\1{2,}`, 'g'), '$1$1'],
+  [new RegExp(`([^${VOWELS}\\W])\\1+`, 'g'), '$1'],
+
+  // e/i and o/u collapse (after ai handling)
+  [/e/g, 'i'],
+  [/o/g, 'u'],
+];
+
+/**
+ * Reduce Roman-Urdu text to a phonetic key, so spelling variants of the same
+ * word meet: "nohay"/"Nohe", "Hussain"/"Husain", "mein"/"main".
+ *
+ * Only Latin letters and digits survive; Urdu script is dropped. A word
+ * never splits into several, since only ASCII punctuation, whitespace and
+ * Urdu punctuation become spaces.
+ */
+export function normalizeRomanUrdu(input: string): string {
+  // Accents come off Latin letters (é → e); any other character outside
+  // printable ASCII is dropped rather than splitting the word it sits in,
+  // except the whitespace and Urdu punctuation tokenizeQuery also splits on
+  let s = input
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\s\u060c\u061b\u061f\u06d4]/g, ' ')
+    .replace(/[^ -~]/g, '')
+    .toLowerCase()
+    .trim();
+
+  for (const [pat, repl] of WORD_EQUIV) s = s.replace(pat, repl);
+  for (const [pat, repl] of SEQ_RULES) s = s.replace(pat, repl);
+
+  // normalize whitespace
+  s = s.replace(/\s+/g, ' ').trim();
+
+  return s;
+}
+
+// Honorific signs, harakat, superscript alef, Quranic marks, tatweel and
+// zero-width (non-)joiners
+const URDU_MARKS =
+  /[\u0610-\u061a\u064b-\u065f\u0670\u06d6-\u06dc\u06df-\u06e8\u06ea-\u06ed\u0640\u200c\u200d]/g;
+
+// Arabic/Farsi code points folded onto the Urdu letter a keyboard would type
+const URDU_LETTER_MAP: Record<string, string> = {
+  'ي': 'ی', // ي Arabic yeh → ی
+  'ى': 'ی', // ى alef maksura → ی
+  'ئ': 'ی', // ئ yeh with hamza → ی
+  'ۓ': 'ے', // ۓ bari yeh with hamza → ے
+  'ك': 'ک', // ك Arabic kaf → ک
+  'ه': 'ہ', // ه Arabic heh → ہ
+  'ھ': 'ہ', // ھ do-chashmi heh → ہ
+  'ۀ': 'ہ', // ۀ heh with yeh → ہ
+  'ۂ': 'ہ', // ۂ heh goal with hamza → ہ
+  'ۃ': 'ہ', // ۃ teh marbuta goal → ہ
+  'ة': 'ہ', // ة teh marbuta → ہ
+  'آ': 'ا', // آ alef with madda → ا
+  'أ': 'ا', // أ alef with hamza above → ا
+  'إ': 'ا', // إ alef with hamza below → ا
+  'ٱ': 'ا', // ٱ alef wasla → ا
+  'ؤ': 'و', // ؤ waw with hamza → و
+};
+
+const URDU_LETTERS = new RegExp(
+  `[${Object.keys(URDU_LETTER_MAP).join('')}]`,
+  'g',
+);
+
+/**
+ * Fold Urdu/Arabic script variants onto one spelling, so text typed on an
+ * Arabic, Farsi or Urdu keyboard matches the stored lyrics: yeh/kaf/heh
+ * variants, hamza carriers and madda are unified, and diacritics are dropped.
+ * Arabic-Indic digits become ASCII. Latin text passes through unchanged.
+ */
+export function normalizeUrduScript(input: string): string {
+  return input
+    .replace(URDU_MARKS, '')
+    .replace(URDU_LETTERS, ch => URDU_LETTER_MAP[ch])
+    .replace(/[\u0660-\u0669]/g, ch => String(ch.charCodeAt(0) - 0x0660))
+    .replace(/[\u06f0-\u06f9]/g, ch => String(ch.charCodeAt(0) - 0x06f0));
+}
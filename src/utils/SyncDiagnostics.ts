@@ -0,0 +1,50 @@
+/**
+ * Plain-text sync diagnostics report
+ *
+ * What the diagnostics screen shares for bug reports: the sync positions,
+ * network state and the recent run log, one fact per line.
+ */
+
+import { SyncDiagnostics, SyncEvent } from '../types';
+
+function formatTime(millis: number): string {
+  return new Date(millis).toISOString();
+}
+
+export function formatSyncEvent(event: SyncEvent): string {
+  const outcome = event.success ? 'ok' : `failed: ${event.error ?? 'unknown error'}`;
+  return (
+    `${formatTime(event.timestamp)} ${event.type} ${event.duration}ms ` +
+    `processed=${event.recordsProcessed} active=${event.activeRecords} ` +
+    `deleted=${event.deletedRecords} ${outcome}`
+  );
+}
+
+export function formatSyncDiagnostics(
+  diagnostics: SyncDiagnostics,
+  generatedAt: number = Date.now(),
+): string {
+  const { watermark, cdcProgress, pendingCdcDays, network } = diagnostics;
+  const pending =
+    pendingCdcDays === null
+      ? 'unknown'
+      : pendingCdcDays.length === 0
+        ? 'none'
+        : pendingCdcDays.join(', ');
+
+  const lines = [
+    'Pursadari sync diagnostics',
+    `Generated: ${formatTime(generatedAt)}`,
+    '',
+    `Watermark: ${formatTime(watermark.seconds * 1000)} (doc ${watermark.docId || '-'})`,
+    `CDC progress: ${cdcProgress ? `${cdcProgress.date}, ${cdcProgress.applied} applied` : 'none'}`,
+    `Pending CDC days: ${pending}`,
+    `Network: ${network.isConnected ? 'online' : 'offline'} (${network.type})`,
+    `Local records: ${diagnostics.recordCount}`,
+    `Last sync date: ${diagnostics.lastSyncDate ?? 'never'}`,
+    '',
+    `Recent syncs (${diagnostics.events.length}):`,
+    ...diagnostics.events.map(formatSyncEvent),
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,54 @@
+// stamp-bundle-meta.js
+// Run this on the exported database.sqlite before it is bundled into the app:
+//   node stamp-bundle-meta.js <path/to/database.sqlite> [--built-at <ISO time>]
+//
+// Writes a bundle_meta table holding the build timestamp and record count. On
+// first open the app starts syncing from built_at, so pass the time the data
+// was exported from Firestore if stamping happens later than that.
+
+const fs = require('fs');
+const initSqlJs = require('sql.js');
+
+function parseArgs(argv) {
+  const args = { path: null, builtAt: new Date().toISOString() };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--built-at') {
+      args.builtAt = new Date(argv[++i]).toISOString();
+    } else {
+      args.path = argv[i];
+    }
+  }
+  return args;
+}
+
+async function stampBundleMeta() {
+  const { path, builtAt } = parseArgs(process.argv.slice(2));
+  if (!path) {
+    console.error('Usage: node stamp-bundle-meta.js <database.sqlite> [--built-at <ISO time>]');
+    process.exit(1);
+  }
+
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(fs.readFileSync(path));
+
+  const columns = db.exec('PRAGMA table_info(kalaam)')[0].values.map(row => row[1]);
+  const live = columns.includes('deleted') ? ' WHERE COALESCE(deleted, 0) = 0' : '';
+  const recordCount = db.exec(`SELECT COUNT(*) FROM kalaam${live}`)[0].values[0][0];
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS bundle_meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    )
+  `);
+  const insert = db.prepare('INSERT OR REPLACE INTO bundle_meta (key, value) VALUES (?, ?)');
+  insert.run(['built_at', builtAt]);
+  insert.run(['record_count', String(recordCount)]);
+  insert.free();
+
+  fs.writeFileSync(path, db.export());
+  db.close();
+  console.log(`bundle_meta written: built_at=${builtAt}, record_count=${recordCount}`);
+}
+
+stampBundleMeta();
@@ -1,6 +1,8 @@
 declare module 'react-native-sqlite-storage' {
   namespace SQLite {
     interface ResultSet {
+      insertId: number;
+      rowsAffected: number;
       rows: {
         length: number;
         item(index: number): any;
@@ -9,6 +11,7 @@ declare module 'react-native-sqlite-storage' {
 
     interface SQLiteDatabase {
       executeSql(sqlStatement: string, params?: any[]): Promise<[ResultSet]>;
+      sqlBatch(statements: Array<string | [string, any[]]>): Promise<void>;
       transaction(cb: (tx: any) => void, error?: (e: any) => void, success?: () => void): void;
       readTransaction(cb: (tx: any) => void, error?: (e: any) => void, success?: () => void): void;
       close(): Promise<void> | void;
@@ -20,5 +23,8 @@ declare module 'react-native-sqlite-storage' {
     openDatabase(options: any): Promise<SQLite.SQLiteDatabase> | SQLite.SQLiteDatabase;
   };
 
+  export type SQLiteDatabase = SQLite.SQLiteDatabase;
+  export type ResultSet = SQLite.ResultSet;
+
   export default SQLite;
 }